@@ -0,0 +1,107 @@
+import * as v from "valibot";
+import { inspect } from "node:util";
+import { API_URL_BASE } from "./config";
+
+export const PublishedPackage = v.object({
+  name: v.string(),
+  version: v.string(),
+  url: v.string(),
+  size: v.number(),
+  sha256: v.nullable(v.string()),
+  uploaded: v.string(),
+  expires: v.nullable(v.string()),
+  publishedBy: v.nullable(v.string()),
+  private: v.boolean(),
+});
+export type PublishedPackage = v.InferOutput<typeof PublishedPackage>;
+
+export const Settings = v.object({
+  defaultTtl: v.optional(v.nullable(v.string())),
+  publishTeam: v.optional(v.nullable(v.string())),
+});
+export type Settings = v.InferOutput<typeof Settings>;
+
+export const ReadToken = v.object({
+  id: v.string(),
+  name: v.string(),
+  createdBy: v.string(),
+  createdAt: v.string(),
+  token: v.string(),
+});
+
+export const PublishedPackageInfo = v.object({
+  ...PublishedPackage.entries,
+  manifest: v.nullable(v.record(v.string(), v.unknown())),
+});
+export type PublishedPackageInfo = v.InferOutput<typeof PublishedPackageInfo>;
+
+const ApiError = v.looseObject({ error: v.string() });
+
+type ApiRequestOptions = {
+  method?: string;
+  token: string;
+  body?: BodyInit;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Sends an authenticated request to the preview-pkg API and validates the
+ * response body with `schema`, throws with the API error message on failure
+ */
+export async function apiRequest<
+  TSchema extends v.GenericSchema<unknown, unknown>,
+>(
+  path: string,
+  schema: TSchema,
+  options: ApiRequestOptions
+): Promise<v.InferOutput<TSchema>> {
+  const res = await fetch(`${API_URL_BASE}${path}`, {
+    method: options.method ?? "GET",
+    body: options.body,
+    headers: {
+      ...options.headers,
+      Authorization: `Bearer ${options.token}`,
+    },
+  });
+
+  const body = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    const error = v.safeParse(ApiError, body);
+    throw new Error(
+      error.success
+        ? error.output.error
+        : `Request failed with status ${res.status} ${res.statusText}`
+    );
+  }
+
+  const parsed = v.safeParse(schema, body);
+  if (!parsed.success) {
+    throw new Error(
+      `Failed to parse response: ${inspect(v.flatten(parsed.issues), {
+        depth: null,
+        colors: false,
+      })}`
+    );
+  }
+  return parsed.output;
+}
+
+/**
+ * Splits `name@version` or `@org/name@version` into its parts
+ */
+export function parsePackageSpec(spec: string) {
+  const separator = spec.lastIndexOf("@");
+  if (separator <= 0) {
+    throw new Error(
+      `Invalid package "${spec}", expected format is package-name@version`
+    );
+  }
+  return { name: spec.slice(0, separator), version: spec.slice(separator + 1) };
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,98 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { x } from "tinyexec";
+import { CONFIG_DIR } from "./config";
+import type { PackageManager } from "./project-config";
+import { runInDependencyOrder } from "./schedule";
+import type { WorkspacePackage } from "./workspace";
+
+const LOG_DIR = join(CONFIG_DIR, "logs");
+
+export type BuildResult =
+  | { status: "success"; duration: number; command: string | null }
+  | {
+      status: "failed";
+      command: string;
+      // Combined stdout and stderr of the build
+      output: string[];
+      logFile: string | null;
+    }
+  // A dependency failed to build, so this package wasn't built at all
+  | { status: "skipped"; dependency: string };
+
+export type BuildOptions = {
+  // Configured command, runs instead of the build script of each package
+  command?: string;
+  packer: PackageManager;
+  concurrency: number;
+  onProgress?: (running: WorkspacePackage[], finished: number) => void;
+};
+
+// The `prepack` script isn't run here, every packer already runs it while packing
+const buildCommand = (pkg: WorkspacePackage, options: BuildOptions) => {
+  if (options.command) return options.command;
+  if (pkg.pJson.scripts?.build) return `${options.packer} run build`;
+  return null;
+};
+
+async function runBuild(
+  pkg: WorkspacePackage,
+  command: string
+): Promise<BuildResult> {
+  const started = Date.now();
+  const proc = x(command, [], {
+    nodeOptions: { cwd: pkg.path, shell: true },
+    throwOnError: false,
+  });
+
+  // Iterating the process yields stdout and stderr lines as they come
+  const output: string[] = [];
+  for await (const line of proc) output.push(line);
+  await proc;
+
+  if (proc.exitCode === 0)
+    return { status: "success", duration: Date.now() - started, command };
+
+  const logFile = join(
+    LOG_DIR,
+    `${pkg.pJson.name!.replace("@", "").replace("/", "-")}.log`
+  );
+  const saved = await mkdir(LOG_DIR, { recursive: true })
+    .then(() =>
+      writeFile(logFile, [`$ ${command}`, ...output].join("\n") + "\n")
+    )
+    .then(() => true)
+    .catch(() => false);
+
+  return {
+    status: "failed",
+    command,
+    output,
+    logFile: saved ? logFile : null,
+  };
+}
+
+/**
+ * Builds packages with at most `concurrency` builds at once, a package is only
+ * built after the workspace packages it depends on, and is skipped if one of
+ * them failed
+ */
+export function buildPackages<T extends WorkspacePackage>(
+  packages: T[],
+  options: BuildOptions
+): Promise<Map<T, BuildResult>> {
+  return runInDependencyOrder<T, BuildResult>(packages, {
+    concurrency: options.concurrency,
+    run: async (pkg) => {
+      const command = buildCommand(pkg, options);
+      if (!command) return { status: "success", duration: 0, command: null };
+      return runBuild(pkg, command);
+    },
+    succeeded: (result) => result.status === "success",
+    skipped: (_pkg, dependency) => ({
+      status: "skipped",
+      dependency: dependency.pJson.name!,
+    }),
+    onProgress: options.onProgress,
+  });
+}
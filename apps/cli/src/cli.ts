@@ -1,32 +1,96 @@
 import { createCli, type TrpcCliMeta } from "trpc-cli";
 import { initTRPC } from "@trpc/server";
-import { GithubCredentialsManager } from "./credential-manager";
+import { GithubCredentialsManager, type Auth } from "./credential-manager";
 import * as v from "valibot";
 import pc from "picocolors";
-import { readFile, stat, unlink, writeFile } from "node:fs/promises";
-import { join } from "node:path";
+import {
+  copyFile,
+  mkdtemp,
+  readFile,
+  rename,
+  rm,
+  stat,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { createReadStream, openAsBlob } from "node:fs";
+import { pipeline } from "node:stream/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
 import { x } from "tinyexec";
-import { API_URL_BASE } from "./config";
+import { API_URL_BASE, CONFIG_DIR, setApiUrl } from "./config";
+import {
+  apiRequest,
+  formatBytes,
+  parsePackageSpec,
+  PublishedPackage,
+  PublishedPackageInfo,
+  ReadToken,
+  Settings,
+} from "./api";
+import { isRetriableError, isRetriableStatus, uploadTarball } from "./upload";
+import { buildPackages } from "./build";
+import {
+  collectSource,
+  loadSigningKey,
+  provenancePayload,
+  signingKeyId,
+  signProvenance,
+} from "./provenance";
+import {
+  findPullRequest,
+  formatComment,
+  upsertComment,
+  type CommentContents,
+} from "./comment";
+import { mapConcurrently, runInDependencyOrder } from "./schedule";
+import {
+  affectedPackages,
+  changedPackages,
+  filterWorkspacePackages,
+  findWorkspace,
+  matchesPackageName,
+  listWorkspacePackages,
+  readPackageJson,
+  sortByDependencies,
+  withDependencies,
+  type PackageJson,
+} from "./workspace";
+import { listTarballFiles, replaceTarballFile } from "@preview-pkg/web/tarball";
+import { diffLines, formatDiff } from "./diff";
+import { rewriteManifest } from "./manifest";
+import {
+  detectProjectPackageManager,
+  parsePreviewSpec,
+  unusePreviews,
+  usePreviews,
+} from "./use";
+import {
+  createJournal,
+  findStaleJournals,
+  restoreStaleJournals,
+  type Journal,
+} from "./journal";
+import {
+  Duration,
+  loadProjectConfig,
+  PackageManager,
+  Tag,
+} from "./project-config";
 import { inspect } from "node:util";
-import { createHash } from "node:crypto";
+import { createHash, type KeyObject } from "node:crypto";
 import { glob } from "glob";
 import * as prompts from "@clack/prompts";
 
-type PackageJson = {
-  name?: string;
-  version?: string;
-  private?: boolean;
-  dependencies?: Record<string, string>;
-  devDependencies?: Record<string, string>;
-  optionalDependencies?: Record<string, string>;
-  peerDependencies?: Record<string, string>;
-  [key: string]: any;
-};
-
 const t = initTRPC.meta<TrpcCliMeta>().create();
 
-const PackageManager = v.picklist(["pnpm", "bun", "yarn", "npm"]);
-type PackageManager = v.InferOutput<typeof PackageManager>;
+// Organization namespace to use instead of the authenticated user's
+const Owner = v.optional(
+  v.pipe(
+    v.string(),
+    v.description("GitHub organization to use instead of your own namespace")
+  )
+);
 
 const router = t.router({
   login: t.procedure.mutation(async () => {
@@ -38,65 +102,334 @@ const router = t.router({
       v.tuple([
         v.pipe(v.optional(v.array(v.string()), []), v.description("paths")),
         v.object({
-          packer: v.optional(PackageManager, detectPackageManager()),
+          packer: v.optional(PackageManager),
           version: v.optional(v.string()),
+          ttl: v.optional(
+            v.pipe(
+              Duration,
+              v.description(
+                "Delete the packages after this duration, defaults to your retention setting"
+              )
+            )
+          ),
+          tag: v.optional(
+            v.pipe(
+              Tag,
+              v.description("Point this tag to the published version")
+            )
+          ),
+          owner: Owner,
+          private: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description(
+                "Only allow namespace members and read tokens to download the packages"
+              )
+            ),
+            false
+          ),
+          workspace: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description(
+                "Publish the packages of the workspace, the default when run at the workspace root"
+              )
+            ),
+            false
+          ),
+          filter: v.optional(
+            v.pipe(
+              v.array(v.string()),
+              v.description(
+                "Only publish matching workspace packages, uses the same syntax as pnpm's --filter"
+              )
+            ),
+            []
+          ),
+          withDeps: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description(
+                "Also publish the workspace packages the selected packages depend on"
+              )
+            ),
+            false
+          ),
+          since: v.optional(
+            v.pipe(
+              v.string(),
+              v.description(
+                "Only publish packages changed since this git ref, or depending on one that changed"
+              )
+            )
+          ),
+          build: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description(
+                "Run the build script of every package before packing it"
+              )
+            ),
+            false
+          ),
+          concurrency: v.optional(
+            v.pipe(
+              v.number(),
+              v.integer(),
+              v.minValue(1),
+              v.description(
+                "How many packages are built, packed and uploaded at the same time"
+              )
+            )
+          ),
+          provenance: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description(
+                "Record the git commit, branch, package manager and CI run the packages were built from"
+              )
+            ),
+            true
+          ),
+          sign: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description(
+                "Sign the provenance with your Ed25519 key, from PREVIEW_PKG_SIGNING_KEY or generated on first use"
+              )
+            ),
+            false
+          ),
+          dryRun: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description(
+                "Show the rewritten package.json files, tarball contents and URLs without building, writing or publishing anything"
+              )
+            ),
+            false
+          ),
+          comment: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description(
+                "Create or update a comment with install commands on the pull request"
+              )
+            ),
+            false
+          ),
+          pr: v.optional(
+            v.pipe(
+              v.number(),
+              v.integer(),
+              v.description(
+                "Pull request to comment on, detected from GitHub Actions or the current branch by default"
+              )
+            )
+          ),
+          json: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description(
+                "Print the result as JSON to stdout, progress is still shown on stderr"
+              )
+            ),
+            false
+          ),
         }),
       ])
     )
     .mutation(async ({ input }) => {
+      // Keeps stdout for the result, so it can be piped while progress is shown
+      const printJson = input[1].json ? redirectStdout() : null;
+      // Exits with 0 if every package was published (or already was), 2 if only
+      // some of them were, and 1 if none were
+      const exit = (result: Partial<PublishResult>): never => {
+        const output: PublishResult = {
+          version: null,
+          namespace: null,
+          tag: null,
+          packages: [],
+          error: null,
+          ...result,
+        };
+        printJson?.(JSON.stringify(output, null, 2) + "\n");
+
+        const failed = output.packages.filter(
+          (pkg) => pkg.status === "failed"
+        ).length;
+        if (output.error || (failed > 0 && failed === output.packages.length))
+          process.exit(1);
+        process.exit(failed > 0 ? 2 : 0);
+      };
+
       prompts.intro(
         pc.bold(pc.bgBlueBright(pc.black(" preview-pkg publish ")))
       );
 
-      const credentials = await GithubCredentialsManager.getCredentials();
-      if (!credentials) {
-        prompts.log.error(
-          "Please login using GitHub with `preview-pkg login` before publishing packages."
+      const loaded = await requireProjectConfig();
+      if ("error" in loaded) return exit({ error: loaded.error });
+      const { projectConfig } = loaded;
+
+      // Dry runs don't talk to the API, they can be tried before logging in
+      const credentials = input[1].dryRun
+        ? await GithubCredentialsManager.getAuth().catch(() => null)
+        : await requireCredentials("publishing packages");
+      if (!credentials && !input[1].dryRun)
+        return exit({ error: "Not logged in" });
+
+      // Flags take precedence over the project config
+      const config = projectConfig?.config ?? {};
+      const options = {
+        ...input[1],
+        packer: input[1].packer ?? config.packer ?? detectPackageManager(),
+        ttl: input[1].ttl ?? config.ttl,
+        tag: input[1].tag ?? config.tag,
+        concurrency: input[1].concurrency ?? config.concurrency ?? 4,
+      };
+      const patterns = input[0].length > 0 ? input[0] : (config.packages ?? []);
+
+      if (findStaleJournals().length > 0) {
+        prompts.log.warn(
+          `A previous publish was interrupted before restoring its package.json files, run ${pc.bold(
+            "preview-pkg restore"
+          )} to restore them`
         );
-        prompts.outro(pc.red("Authentication required"));
-        return;
       }
 
       // Expand paths using glob to handle directory patterns
       const s1 = prompts.spinner();
       s1.start("Scanning for packages...");
 
-      const paths =
-        input[0]?.length > 0
-          ? (
-              await Promise.all(
-                input[0].map((pattern) =>
-                  glob(pattern, {
-                    withFileTypes: false,
-                    absolute: true,
-                  })
-                )
-              )
-            )
-              .flat()
-              .filter((p) => p) // Filter out any empty results
-          : [process.cwd()];
+      const workspace = await findWorkspace(process.cwd());
+      const useWorkspace =
+        options.workspace ||
+        options.filter.length > 0 ||
+        (patterns.length === 0 && workspace?.root === process.cwd());
+
+      const workspacePackages = workspace
+        ? await listWorkspacePackages(workspace)
+        : [];
+
+      let paths: string[];
+      if (useWorkspace) {
+        if (!workspace) {
+          s1.stop("No workspace found");
+          const error =
+            "Could not find pnpm-workspace.yaml or a package.json with a workspaces field";
+          prompts.log.error(error);
+          prompts.outro(pc.red("No packages to publish"));
+          return exit({ error });
+        }
+        if (patterns.length > 0) {
+          s1.stop("Invalid arguments");
+          const error =
+            "Paths can't be combined with --workspace or --filter, use --filter ./path instead";
+          prompts.log.error(error);
+          prompts.outro(pc.red("No packages to publish"));
+          return exit({ error });
+        }
+        paths = filterWorkspacePackages(
+          workspacePackages,
+          options.filter,
+          process.cwd()
+        ).map((pkg) => pkg.path);
+      } else {
+        // Globs from the config file are relative to the config file
+        const globCwd =
+          input[0].length > 0 ? process.cwd() : (projectConfig?.dir ?? "");
+        paths =
+          patterns.length > 0
+            ? [
+                ...new Set(
+                  (
+                    await Promise.all(
+                      patterns.map((pattern) =>
+                        glob(pattern, {
+                          cwd: globCwd,
+                          withFileTypes: false,
+                          absolute: true,
+                        })
+                      )
+                    )
+                  ).flat()
+                ),
+              ]
+            : [process.cwd()];
+      }
+
+      if (options.withDeps || options.since) {
+        if (!workspace) {
+          s1.stop("No workspace found");
+          const error =
+            "--with-deps and --since need pnpm-workspace.yaml or a package.json with a workspaces field";
+          prompts.log.error(error);
+          prompts.outro(pc.red("No packages to publish"));
+          return exit({ error });
+        }
 
-      let publishingVersion = input[1].version;
+        let selected = workspacePackages.filter((pkg) =>
+          paths.includes(pkg.path)
+        );
+        if (options.withDeps)
+          selected = withDependencies(selected, workspacePackages);
+
+        if (options.since) {
+          const changed = await changedPackages(
+            workspacePackages,
+            options.since,
+            workspace.root
+          );
+          if (!changed) {
+            s1.stop("Failed to find changed packages");
+            const error = `Failed to compare with ${options.since}, make sure the ref exists and has been fetched`;
+            prompts.log.error(error);
+            prompts.outro(pc.red("No packages to publish"));
+            return exit({ error });
+          }
+          // Unchanged packages are only republished if one of their dependencies changed
+          const affected = affectedPackages(changed, workspacePackages);
+          selected = selected.filter((pkg) => affected.includes(pkg));
+        }
+
+        paths = selected.map((pkg) => pkg.path);
+      }
+
+      let publishingVersion = options.version;
       if (!publishingVersion) {
         // Get git version first
         const gitVersion = await x(`git`, ["rev-parse", "HEAD"]);
         if (gitVersion.exitCode !== 0) {
           s1.stop("Failed to get Git version");
-          prompts.log.error(
-            "Failed to get the Git commit hash, please pass in version manually with --version flag"
-          );
+          const error =
+            "Failed to get the Git commit hash, please pass in version manually with --version flag";
+          prompts.log.error(error);
           prompts.outro(pc.red("Version detection failed"));
-          return;
+          return exit({ error });
         }
         publishingVersion = gitVersion.stdout.trim().slice(0, 7);
       }
 
-      const username = await GithubCredentialsManager.getUsername();
+      if (!credentials && !options.owner)
+        prompts.log.info(
+          `Not logged in, pass ${pc.bold("--owner")} to show the URLs of your namespace`
+        );
+      const username = options.owner ?? credentials?.username ?? "<username>";
+      if (
+        credentials &&
+        !options.dryRun &&
+        !checkOrganizationScope(credentials, username)
+      )
+        return exit({ error: "Missing read:org scope" });
+      const resultInfo = {
+        version: publishingVersion,
+        namespace: username,
+        tag: options.tag ?? null,
+      };
 
       // PASS 1: Read all package.json files and build dependency map
       const deps = new Map<string, string>();
-      const packageInfos: Array<{ path: string; pJson: PackageJson }> = [];
+      let packageInfos: Array<{ path: string; pJson: PackageJson }> = [];
 
       for (const p of paths) {
         const pJsonPath = join(p, "package.json");
@@ -117,6 +450,11 @@ const router = t.router({
           continue;
         }
 
+        if (config.exclude && matchesPackageName(pJson.name, config.exclude)) {
+          prompts.log.info(`Skipping ${p}: package is excluded in config`);
+          continue;
+        }
+
         if (!pJson.version) {
           prompts.log.warn(`Skipping ${p}: package version not defined`);
           continue;
@@ -131,16 +469,94 @@ const router = t.router({
 
       s1.stop("Package scan complete");
 
+      // Dependencies are published first, so their preview URLs exist by the
+      // time anything depending on them can be installed
+      const { sorted, cyclic } = sortByDependencies(packageInfos);
+      packageInfos = sorted;
+      if (cyclic.length > 0) {
+        prompts.log.warn(
+          `Dependency cycle between ${cyclic
+            .map((info) => info.pJson.name!)
+            .join(", ")}, they are published in no particular order`
+        );
+      }
+
       if (packageInfos.length === 0) {
-        prompts.log.error("No valid packages found to publish");
+        // Nothing changing since the ref isn't a failure
+        if (options.since) {
+          prompts.outro(pc.dim(`No packages changed since ${options.since}`));
+          return exit(resultInfo);
+        }
+        const error = "No valid packages found to publish";
+        prompts.log.error(error);
         prompts.outro(pc.red("No packages to publish"));
-        return;
+        return exit({ ...resultInfo, error });
+      }
+
+      // Collected before building, build outputs shouldn't mark the tree as dirty
+      const source = options.provenance
+        ? await collectSource(process.cwd(), options.packer)
+        : null;
+      let signingKey: KeyObject | null = null;
+      if (options.sign) {
+        if (!source) {
+          const error = "--sign needs provenance, remove --provenance false";
+          prompts.log.error(error);
+          prompts.outro(pc.red("No packages to publish"));
+          return exit({ ...resultInfo, error });
+        }
+        try {
+          signingKey = await loadSigningKey();
+        } catch (error) {
+          const message = `Failed to load the signing key: ${
+            error instanceof Error ? error.message : String(error)
+          }`;
+          prompts.log.error(message);
+          prompts.outro(pc.red("No packages to publish"));
+          return exit({ ...resultInfo, error: message });
+        }
       }
 
+      // Results of packages that are left out along the way, e.g. failed builds
+      const failedPackages: PackageResult[] = [];
+      const failedPackage = (
+        pJson: PackageJson,
+        error: string
+      ): PackageResult => ({
+        name: pJson.name!,
+        version: publishingVersion,
+        url: deps.get(pJson.name!)!,
+        tagUrl: null,
+        sha256: null,
+        size: null,
+        status: "failed",
+        error,
+        retriable: false,
+      });
+
       prompts.note(
         [
           pc.bold(`Version: ${pc.green(publishingVersion)}`),
-          pc.bold(`Package Manager: ${pc.blue(input[1].packer)}`),
+          pc.bold(`Namespace: ${pc.cyan(username)}`),
+          pc.bold(`Package Manager: ${pc.blue(options.packer)}`),
+          ...(options.ttl ? [pc.bold(`TTL: ${pc.yellow(options.ttl)}`)] : []),
+          ...(options.tag ? [pc.bold(`Tag: ${pc.magenta(options.tag)}`)] : []),
+          ...(options.private ? [pc.bold(pc.red("Private"))] : []),
+          ...(source?.git
+            ? [
+                pc.bold(
+                  `Commit: ${pc.dim(source.git.commit.slice(0, 7))}${
+                    source.git.dirty
+                      ? pc.yellow(" with uncommitted changes")
+                      : ""
+                  }`
+                ),
+              ]
+            : []),
+          ...(signingKey
+            ? [pc.bold(`Signing key: ${pc.dim(signingKeyId(signingKey))}`)]
+            : []),
+          ...(options.dryRun ? [pc.bold(pc.yellow("Dry run"))] : []),
           "",
           pc.bold("Packages to publish:"),
           ...packageInfos.map(
@@ -152,186 +568,537 @@ const router = t.router({
         ].join("\n")
       );
 
-      // PASS 2: Modify package.json files to replace workspace dependencies
+      // Builds write to the packages, dry runs pack what was built before
+      if (options.dryRun && (options.build || config.build))
+        prompts.log.info("Skipping the build in a dry run");
+
+      // Build before package.json files are rewritten, build tools may read them
+      if (!options.dryRun && (options.build || config.build)) {
+        const total = packageInfos.length;
+        const s2 = prompts.spinner();
+        s2.start("Building packages...");
+        const results = await buildPackages(packageInfos, {
+          command: config.build,
+          packer: options.packer,
+          concurrency: options.concurrency,
+          onProgress: (running, finished) =>
+            s2.message(
+              `Building ${finished + 1} of ${total}: ${running
+                .map((info) => info.pJson.name!)
+                .join(", ")}`
+            ),
+        });
+
+        const failed = [...results.values()].filter(
+          (result) => result.status !== "success"
+        ).length;
+        s2.stop(
+          failed > 0
+            ? `Built ${total - failed} of ${total} package(s)`
+            : `Built ${total} package(s)`
+        );
+
+        for (const [info, result] of results) {
+          const name = pc.cyan(info.pJson.name!);
+          if (result.status === "success") {
+            if (result.command)
+              prompts.log.success(
+                `${name} ${pc.dim(`${(result.duration / 1000).toFixed(1)}s`)}`
+              );
+          } else if (result.status === "skipped") {
+            prompts.log.warn(
+              `${name} skipped, its dependency ${pc.bold(result.dependency)} failed to build`
+            );
+          } else {
+            prompts.log.error(
+              [
+                `${name} failed to build with ${pc.bold(result.command)}`,
+                // The end of the output is usually where the error is
+                ...result.output.slice(-20).map((line) => pc.dim(line)),
+                ...(result.logFile
+                  ? [`Full output: ${pc.underline(result.logFile)}`]
+                  : []),
+              ].join("\n")
+            );
+          }
+        }
+
+        // Packages that failed, or depend on one that did, aren't published
+        packageInfos = packageInfos.filter(
+          (info) => results.get(info)!.status === "success"
+        );
+        for (const [info, result] of results) {
+          if (result.status === "success") continue;
+          failedPackages.push(
+            failedPackage(
+              info.pJson,
+              result.status === "skipped"
+                ? `Not built, its dependency ${result.dependency} failed to build`
+                : `Failed to build with ${result.command}${
+                    result.logFile ? `, see ${result.logFile}` : ""
+                  }`
+            )
+          );
+          deps.delete(info.pJson.name!);
+        }
+        if (packageInfos.length === 0) {
+          prompts.outro(pc.red("Build failed, nothing was published"));
+          return exit({ ...resultInfo, packages: failedPackages });
+        }
+      }
 
-      const restoreMap = new Map<string, () => Promise<void>>();
+      // PASS 2: Rewrite dependencies, and make sure every package can be installed
+      // before anything is modified on disk
+      const manifests = new Map<
+        string,
+        { pJsonPath: string; originalContents: string; contents: string }
+      >();
+      const manifestErrors: Array<{ name: string; error: string }> = [];
 
       for (const { path: p, pJson } of packageInfos) {
         const pJsonPath = join(p, "package.json");
         const originalContents = await readFile(pJsonPath, "utf-8");
+        const { contents, errors } = rewriteManifest(pJson, {
+          urls: deps,
+          workspacePackages,
+          catalogs: workspace?.catalogs ?? {},
+        });
+        manifests.set(p, { pJsonPath, originalContents, contents });
+        manifestErrors.push(
+          ...errors.map((error) => ({ name: pJson.name!, error }))
+        );
+      }
 
-        const restore = await writeDeps(
-          pJsonPath,
-          originalContents,
-          pJson,
-          deps
+      if (manifestErrors.length > 0) {
+        prompts.log.error(
+          [
+            pc.bold("Some dependencies can't be published:"),
+            ...manifestErrors.map(
+              ({ name, error }) => `  ${pc.cyan(name)} ${error}`
+            ),
+          ].join("\n")
         );
-        restoreMap.set(p, restore);
+        prompts.outro(pc.red("Fix the dependencies above and try again"));
+        return exit({
+          ...resultInfo,
+          error: [
+            "Some dependencies can't be published:",
+            ...manifestErrors.map(({ name, error }) => `${name} ${error}`),
+          ].join("\n"),
+        });
       }
 
-      // PASS 3: Pack all packages and collect results
       const packedPackages: Array<{
         path: string;
         pJson: PackageJson;
         packageIdentifier: string;
         packResult: {
           filename: string;
-          file: Buffer<ArrayBuffer>;
           sha256: string;
           size: number;
           output: string;
         };
       }> = [];
+      // Dry runs only collect what would have been written
+      const manifestDiffs = new Map<string, string | null>();
 
-      for (const { path: p, pJson } of packageInfos) {
-        const packageIdentifier = `${pJson
-          .name!.replace("@", "")
-          .replace("/", "-")}-${pJson.version}`;
-
-        const packResult = await pack({
-          packageManager: input[1].packer,
-          cwd: p,
-          packageIdentifier,
-        });
+      // Tarballs are kept until they are uploaded, outside of the packages
+      const packDir = await mkdtemp(join(tmpdir(), "preview-pkg-"));
 
-        packedPackages.push({
-          path: p,
-          pJson,
-          packageIdentifier,
-          packResult,
+      // Originals are journaled before they are modified, and restored no matter
+      // how we exit, even if the process is interrupted while packing
+      const journal = createJournal();
+      const restoreOnExit = () => journal.restore();
+      const exitOnSignal = (signal: NodeJS.Signals) =>
+        process.exit(signal === "SIGINT" ? 130 : 143);
+      process.on("exit", restoreOnExit);
+      process.once("SIGINT", exitOnSignal);
+      process.once("SIGTERM", exitOnSignal);
+
+      try {
+        // Write the rewritten package.json files for the package manager to
+        // pack, dry runs put them in the packed tarballs instead
+        for (const [
+          p,
+          { pJsonPath, originalContents, contents },
+        ] of manifests) {
+          if (options.dryRun) {
+            manifestDiffs.set(
+              p,
+              formatDiff(diffLines(originalContents, contents))
+            );
+            continue;
+          }
+
+          await writeDeps(journal, pJsonPath, originalContents, contents);
+        }
+
+        // PASS 3: Pack all packages and collect results
+        const s2 = prompts.spinner();
+        s2.start("Packing packages...");
+        let packed = 0;
+        const results = await mapConcurrently(
+          packageInfos,
+          options.concurrency,
+          async ({ path: p, pJson }) => {
+            const packageIdentifier = `${pJson
+              .name!.replace("@", "")
+              .replace("/", "-")}-${pJson.version}`;
+
+            let packResult = await pack({
+              packageManager: options.packer,
+              cwd: p,
+              packageIdentifier,
+              outDir: packDir,
+            });
+            if (options.dryRun)
+              packResult = {
+                ...packResult,
+                ...(await replacePackedManifest(
+                  packResult.filename,
+                  manifests.get(p)!.contents
+                )),
+              };
+
+            s2.message(`Packed ${++packed} of ${packageInfos.length}`);
+            return { path: p, pJson, packageIdentifier, packResult };
+          }
+        ).catch((error) => {
+          s2.stop("Packing failed");
+          throw error;
         });
+        packedPackages.push(...results);
+        s2.stop(`Packed ${packed} package(s)`);
+      } catch (error) {
+        await rm(packDir, { recursive: true, force: true });
+        throw error;
+      } finally {
+        // PASS 4: Restore all package.json files
+        journal.restore();
+        process.off("exit", restoreOnExit);
+        process.off("SIGINT", exitOnSignal);
+        process.off("SIGTERM", exitOnSignal);
       }
 
-      // PASS 4: Restore all package.json files
+      if (options.dryRun) {
+        for (const { path: p, pJson, packResult } of packedPackages) {
+          const files = await listTarballFiles(
+            (await openAsBlob(packResult.filename)).stream()
+          );
+          const tag = options.tag;
+          prompts.note(
+            [
+              pc.bold(`URL: ${pc.cyan(deps.get(pJson.name!)!)}`),
+              ...(tag
+                ? [
+                    pc.bold(
+                      `Tag URL: ${pc.cyan(
+                        `${API_URL_BASE}/${username}/${pJson.name!}@${tag}`
+                      )}`
+                    ),
+                  ]
+                : []),
+              "",
+              pc.bold("package.json changes:"),
+              manifestDiffs.get(p) ?? pc.dim("  No changes"),
+              "",
+              pc.bold(
+                `Tarball contents (${files.length} files, ${formatBytes(
+                  packResult.size
+                )}):`
+              ),
+              ...files.map(
+                (file) =>
+                  `  ${pc.dim(formatBytes(file.size).padStart(9))}  ${file.path}`
+              ),
+            ].join("\n"),
+            `${pJson.name!}@${publishingVersion}`
+          );
+        }
 
-      for (const restore of restoreMap.values()) {
-        await restore();
+        await rm(packDir, { recursive: true, force: true });
+        prompts.outro(pc.yellow("Dry run complete, nothing was published"));
+        return exit({
+          ...resultInfo,
+          packages: [
+            ...packedPackages.map(({ pJson, packResult }): PackageResult => ({
+              name: pJson.name!,
+              version: publishingVersion,
+              url: deps.get(pJson.name!)!,
+              tagUrl: options.tag
+                ? `${API_URL_BASE}/${username}/${pJson.name!}@${options.tag}`
+                : null,
+              sha256: packResult.sha256,
+              size: packResult.size,
+              status: "dry-run",
+              error: null,
+              retriable: false,
+            })),
+            ...failedPackages,
+          ],
+        });
       }
 
-      // PASS 5: Upload all packed packages
-      const uploadResults: Array<{
+      // Only dry runs get this far without credentials
+      const { token } = credentials!;
+
+      // PASS 5: Upload all packed packages, dependencies first so their preview
+      // URLs exist by the time a package depending on them is uploaded
+      type UploadResult = {
         pJson: PackageJson;
         packageUrl: string;
         status: "success" | "exists" | "error";
+        // Shown next to the package name once every upload is done
+        message: string;
         errorMessage?: string;
-      }> = [];
+        // Failed because of the network or the server, so trying again may work
+        retriable?: boolean;
+      };
 
-      await prompts.tasks(
-        packedPackages.map(({ pJson, packResult }) => ({
-          title: pc.bold(
-            `Publishing ${pc.cyan(pJson.name!)}@${pc.green(publishingVersion)}`
-          ),
-          task: async (message) => {
-            const packageUrl = deps.get(pJson.name!)!;
+      const totalBytes = packedPackages.reduce(
+        (total, { packResult }) => total + packResult.size,
+        0
+      );
+      const uploadedBytes = new Map<string, number>();
+      let uploadsFinished = 0;
+      const s3 = prompts.spinner();
+      const showUploadProgress = () => {
+        const uploaded = [...uploadedBytes.values()].reduce((a, b) => a + b, 0);
+        s3.message(
+          `Uploading ${uploadsFinished} of ${packedPackages.length} packages, ${formatBytes(
+            uploaded
+          )} of ${formatBytes(totalBytes)}`
+        );
+      };
+      s3.start("Uploading packages...");
 
-            try {
-              const form = new FormData();
-              form.append(
-                "tarball",
-                new File([packResult.file], packResult.filename)
-              );
-              form.append("sha256", packResult.sha256);
-
-              const uploadRes = await fetch(packageUrl, {
-                method: "POST",
-                body: form,
-                headers: {
-                  Authorization: `Bearer ${credentials.token}`,
-                },
-              });
-
-              const response = v.safeParse(
-                v.pipe(
-                  v.string(),
-                  v.parseJson(),
-                  v.union([
-                    v.looseObject({
-                      message: v.string(),
-                    }),
-                    v.looseObject({
-                      error: v.string(),
-                    }),
-                  ])
-                ),
-                await uploadRes.text()
-              );
+      const uploadPackage = async ({
+        pJson,
+        packResult,
+      }: (typeof packedPackages)[number]): Promise<UploadResult> => {
+        const packageUrl = deps.get(pJson.name!)!;
+        const provenance = source
+          ? provenancePayload(source, {
+              name: pJson.name!,
+              version: publishingVersion,
+              sha256: packResult.sha256,
+            })
+          : undefined;
 
-              if (!response.success) {
-                const errorDetails = inspect(v.flatten(response.issues), {
-                  depth: null,
-                  colors: false,
-                });
-                uploadResults.push({
-                  pJson,
-                  packageUrl,
-                  status: "error",
-                  errorMessage: `Failed to parse response: ${errorDetails}`,
-                });
-                return pc.bold(pc.red("Failed to parse response"));
-              }
+        try {
+          const uploadRes = await uploadTarball({
+            username,
+            name: pJson.name!,
+            version: publishingVersion,
+            token,
+            filename: packResult.filename,
+            sha256: packResult.sha256,
+            size: packResult.size,
+            ttl: options.ttl,
+            private: options.private,
+            provenance,
+            signature:
+              provenance && signingKey
+                ? signProvenance(provenance, signingKey)
+                : undefined,
+            onProgress: (uploaded) => {
+              uploadedBytes.set(pJson.name!, uploaded);
+              showUploadProgress();
+            },
+          });
 
-              if (uploadRes.status === 409) {
-                if ("sha256" in response.output) {
-                  if (response.output.sha256 === packResult.sha256) {
-                    uploadResults.push({ pJson, packageUrl, status: "exists" });
-                    return pc.bold(pc.dim("Package already exists"));
-                  } else {
-                    uploadResults.push({
-                      pJson,
-                      packageUrl,
-                      status: "error",
-                      errorMessage: `Same version exists with different SHA-256 checksum\nExpected: ${response.output.sha256}\nActual: ${packResult.sha256}`,
-                    });
-                    return pc.bold(pc.red("Version conflict"));
-                  }
-                }
-              }
+          const response = v.safeParse(
+            v.pipe(
+              v.string(),
+              v.parseJson(),
+              v.union([
+                v.looseObject({
+                  message: v.string(),
+                }),
+                v.looseObject({
+                  error: v.string(),
+                }),
+              ])
+            ),
+            await uploadRes.text()
+          );
 
-              if (!uploadRes.ok) {
-                const errorDetails = inspect(response.output, {
-                  depth: null,
-                  colors: false,
-                });
-                uploadResults.push({
+          if (!response.success) {
+            const errorDetails = inspect(v.flatten(response.issues), {
+              depth: null,
+              colors: false,
+            });
+            return {
+              pJson,
+              packageUrl,
+              status: "error",
+              message: pc.bold(pc.red("Failed to parse response")),
+              errorMessage: `Failed to parse response: ${errorDetails}`,
+              retriable: isRetriableStatus(uploadRes.status),
+            };
+          }
+
+          if (uploadRes.status === 409) {
+            if ("sha256" in response.output) {
+              if (response.output.sha256 === packResult.sha256) {
+                return {
+                  pJson,
+                  packageUrl,
+                  status: "exists",
+                  message: pc.bold(pc.dim("Package already exists")),
+                };
+              } else {
+                return {
                   pJson,
                   packageUrl,
                   status: "error",
-                  errorMessage: errorDetails,
-                });
-                return pc.bold(
-                  pc.red(`Upload failed: ${uploadRes.statusText}`)
-                );
+                  message: pc.bold(pc.red("Version conflict")),
+                  errorMessage: `Same version exists with different SHA-256 checksum\nExpected: ${response.output.sha256}\nActual: ${packResult.sha256}`,
+                };
               }
-
-              uploadResults.push({ pJson, packageUrl, status: "success" });
-              return pc.bold(pc.green(`Published ${pJson.name!}`));
-            } catch (error) {
-              const errorMessage =
-                error instanceof Error ? error.message : String(error);
-              uploadResults.push({
-                pJson,
-                packageUrl,
-                status: "error",
-                errorMessage,
-              });
-              return pc.bold(pc.red(errorMessage));
             }
-          },
-        }))
+          }
+
+          if (!uploadRes.ok) {
+            const errorDetails = inspect(response.output, {
+              depth: null,
+              colors: false,
+            });
+            return {
+              pJson,
+              packageUrl,
+              status: "error",
+              message: pc.bold(
+                pc.red(`Upload failed: ${uploadRes.statusText}`)
+              ),
+              errorMessage: errorDetails,
+              retriable: isRetriableStatus(uploadRes.status),
+            };
+          }
+
+          const expires =
+            "expires" in response.output &&
+            typeof response.output.expires === "string"
+              ? pc.dim(
+                  ` (expires ${new Date(
+                    response.output.expires
+                  ).toLocaleString()})`
+                )
+              : "";
+          return {
+            pJson,
+            packageUrl,
+            status: "success",
+            message: pc.bold(pc.green(`Published ${pJson.name!}`)) + expires,
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          return {
+            pJson,
+            packageUrl,
+            status: "error",
+            message: pc.bold(pc.red(errorMessage)),
+            errorMessage,
+            retriable: isRetriableError(error),
+          };
+        }
+      };
+
+      const uploads = await runInDependencyOrder(packedPackages, {
+        concurrency: options.concurrency,
+        run: uploadPackage,
+        succeeded: (result) => result.status !== "error",
+        skipped: ({ pJson }, dependency, result): UploadResult => ({
+          pJson,
+          packageUrl: deps.get(pJson.name!)!,
+          status: "error",
+          message: pc.bold(pc.red("Skipped")),
+          errorMessage: `Not uploaded, its dependency ${dependency.pJson.name!} failed to upload`,
+          retriable: result.retriable,
+        }),
+        onProgress: (_running, finished) => {
+          uploadsFinished = finished;
+          showUploadProgress();
+        },
+      });
+      const uploadResults = packedPackages.map((info) => uploads.get(info)!);
+
+      const failedUploads = uploadResults.filter(
+        (r) => r.status === "error"
+      ).length;
+      s3.stop(
+        failedUploads > 0
+          ? `Uploaded ${uploadResults.length - failedUploads} of ${uploadResults.length} package(s)`
+          : `Uploaded ${uploadResults.length} package(s)`
       );
+      for (const { pJson, status, message } of uploadResults) {
+        const line = `${pc.cyan(pJson.name!)}@${pc.green(publishingVersion)} ${message}`;
+        if (status === "error") prompts.log.error(line);
+        else prompts.log.success(line);
+      }
+
+      await rm(packDir, { recursive: true, force: true });
+
+      // PASS 6: Point the tag to the published versions
+      const tag = options.tag;
+      const tagResults = new Map<string, string>();
+      if (tag) {
+        const s2 = prompts.spinner();
+        s2.start(`Updating tag ${tag}...`);
+        for (const { pJson, status } of uploadResults) {
+          if (status === "error") continue;
+          try {
+            await apiRequest(
+              `/${username}/-/tags/${pJson.name!}@${tag}`,
+              v.object({ message: v.string() }),
+              {
+                method: "PUT",
+                token,
+                body: JSON.stringify({ version: publishingVersion }),
+                headers: { "Content-Type": "application/json" },
+              }
+            );
+            tagResults.set(
+              pJson.name!,
+              `${API_URL_BASE}/${username}/${pJson.name!}@${tag}`
+            );
+          } catch (error) {
+            prompts.log.warn(
+              `Failed to tag ${pJson.name!}: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+          }
+        }
+        s2.stop(`Tagged ${tagResults.size} package(s) as ${tag}`);
+      }
 
       // Display any error details
       const errorUploads = uploadResults.filter((r) => r.status === "error");
       if (errorUploads.length > 0) {
         prompts.log.info("");
-        for (const { pJson, errorMessage } of errorUploads) {
+        for (const { pJson, errorMessage, retriable } of errorUploads) {
           if (errorMessage) {
-            prompts.log.error(`${pJson.name!}:`);
+            prompts.log.error(
+              `${pJson.name!}:${retriable ? pc.dim(" (network or server error)") : ""}`
+            );
             prompts.log.info(errorMessage);
           }
         }
       }
 
+      // Published packages are skipped when publishing again, only the
+      // failed ones are uploaded
+      const retriableUploads = errorUploads.filter((r) => r.retriable);
+      if (retriableUploads.length > 0) {
+        prompts.log.warn(
+          `${retriableUploads.length} package(s) failed because of network or server errors, run the same command again to retry them: ${retriableUploads
+            .map((r) => pc.cyan(r.pJson.name!))
+            .join(", ")}`
+        );
+      }
+
       const successfulUploads = uploadResults.filter(
         (r) => r.status === "success"
       );
@@ -344,14 +1111,65 @@ const router = t.router({
         prompts.log.success(
           successfulUploads
             .concat(existingPackages)
-            .map((r) =>
-              formatInstallationCommand(r.packageUrl, input[1].packer)
-            )
+            .map((r) => formatInstallationCommand(r.packageUrl, options.packer))
             .join("\n")
         );
       }
 
-      if (successfulUploads.length > 0) {
+      if (tagResults.size > 0) {
+        prompts.log.info(
+          pc.bold(`Installation Commands (always latest ${tag}):`)
+        );
+        prompts.log.success(
+          [...tagResults.values()]
+            .map((url) => formatInstallationCommand(url, options.packer))
+            .join("\n")
+        );
+      }
+
+      const packageResults = [
+        ...uploadResults.map((r, i): PackageResult => ({
+          name: r.pJson.name!,
+          version: publishingVersion,
+          url: r.packageUrl,
+          tagUrl: tagResults.get(r.pJson.name!) ?? null,
+          sha256: packedPackages[i]!.packResult.sha256,
+          size: packedPackages[i]!.packResult.size,
+          status:
+            r.status === "success"
+              ? "published"
+              : r.status === "exists"
+                ? "exists"
+                : "failed",
+          error: r.errorMessage ?? null,
+          retriable: r.retriable ?? false,
+        })),
+        ...failedPackages,
+      ];
+
+      // PASS 7: Post the install commands on the pull request
+      if (options.comment) {
+        await commentOnPullRequest(
+          {
+            version: publishingVersion,
+            tag: tag ?? null,
+            packages: packageResults.filter((pkg) => pkg.status !== "failed"),
+            failed: packageResults
+              .filter((pkg) => pkg.status === "failed")
+              .map((pkg) => pkg.name),
+          },
+          options.pr
+        );
+      }
+
+      const failedCount = errorUploads.length + failedPackages.length;
+      if (successfulUploads.length > 0 && failedCount > 0) {
+        prompts.outro(
+          pc.yellow(
+            `Published ${successfulUploads.length} package(s), ${failedCount} failed`
+          )
+        );
+      } else if (successfulUploads.length > 0) {
         prompts.outro(
           pc.green(
             `✅ Successfully published ${successfulUploads.length} package${
@@ -366,18 +1184,796 @@ const router = t.router({
       } else {
         prompts.outro(pc.red("No packages were published"));
       }
+
+      return exit({ ...resultInfo, packages: packageResults });
+    }),
+  use: t.procedure
+    .input(
+      v.tuple([
+        v.pipe(v.array(v.string()), v.description("previews")),
+        v.object({
+          packer: v.optional(
+            v.pipe(
+              PackageManager,
+              v.description(
+                "Package manager of the project, detected from the lockfile by default"
+              )
+            )
+          ),
+          install: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description("Install dependencies after updating package.json")
+            ),
+            true
+          ),
+        }),
+      ])
+    )
+    .mutation(async ({ input: [specs, options] }) => {
+      prompts.intro(pc.bold(pc.bgBlueBright(pc.black(" preview-pkg use "))));
+
+      const project = process.cwd();
+      if (!(await readPackageJson(join(project, "package.json")))) {
+        prompts.log.error("No package.json found in the current directory");
+        prompts.outro(pc.red("Nothing was changed"));
+        process.exit(1);
+      }
+      // Overrides are only read from the workspace root
+      const root = (await findWorkspace(project))?.root ?? project;
+      const packer =
+        options.packer ??
+        (await detectProjectPackageManager(root)) ??
+        detectPackageManager();
+
+      // Previews without a URL are on the API of the project config
+      if ("error" in (await requireProjectConfig())) process.exit(1);
+      const previews = specs.map(parsePreviewSpec);
+      const s1 = prompts.spinner();
+      s1.start("Checking previews...");
+      const missing: string[] = [];
+      await Promise.all(
+        previews.map(async ({ url }) => {
+          const res = await fetch(url, { method: "HEAD" });
+          if (res.status === 404) missing.push(url);
+          if (res.status === 401)
+            prompts.log.warn(
+              `${url} is private, installing it needs a read token in .npmrc`
+            );
+        })
+      );
+      if (missing.length > 0) {
+        s1.stop("Some previews don't exist");
+        prompts.log.error(
+          missing.map((url) => `${pc.cyan(url)} was not found`).join("\n")
+        );
+        prompts.outro(pc.red("Nothing was changed"));
+        process.exit(1);
+      }
+      s1.stop(`Found ${previews.length} preview(s)`);
+
+      const used = await usePreviews({
+        project,
+        root,
+        packageManager: packer,
+        previews,
+      });
+      prompts.log.success(
+        used
+          .map(
+            (preview) =>
+              `${pc.cyan(preview.name)} ${pc.dim("->")} ${pc.underline(
+                pc.blue(preview.url)
+              )}`
+          )
+          .join("\n")
+      );
+
+      if (options.install) await installDependencies(packer, root);
+      prompts.outro(
+        pc.green(
+          `Using ${used.length} preview(s), run ${pc.bold(
+            "preview-pkg unuse"
+          )} to go back`
+        )
+      );
+    }),
+  unuse: t.procedure
+    .input(
+      v.tuple([
+        v.pipe(v.optional(v.array(v.string()), []), v.description("packages")),
+        v.object({
+          packer: v.optional(
+            v.pipe(
+              PackageManager,
+              v.description(
+                "Package manager of the project, detected from the lockfile by default"
+              )
+            )
+          ),
+          install: v.optional(
+            v.pipe(
+              v.boolean(),
+              v.description("Install dependencies after restoring package.json")
+            ),
+            true
+          ),
+        }),
+      ])
+    )
+    .mutation(async ({ input: [names, options] }) => {
+      prompts.intro(pc.bold(pc.bgBlueBright(pc.black(" preview-pkg unuse "))));
+
+      const root = (await findWorkspace(process.cwd()))?.root ?? process.cwd();
+      const { reverted, modified, unreadable, unknown } = await unusePreviews(
+        root,
+        names
+      );
+
+      for (const name of unknown)
+        prompts.log.warn(`${pc.cyan(name)} isn't using a preview`);
+      for (const { name, file, field } of modified)
+        prompts.log.warn(
+          `${pc.cyan(name)} ${field} in ${file} was changed after using the preview, it was left as is`
+        );
+      for (const { name, file } of unreadable)
+        prompts.log.warn(
+          `${pc.cyan(name)} couldn't be reverted in ${file}, the file couldn't be read`
+        );
+      if (reverted.length === 0) {
+        prompts.outro(
+          pc.dim(
+            modified.length > 0 || unreadable.length > 0
+              ? "No previews were fully reverted"
+              : "No previews to stop using"
+          )
+        );
+        return;
+      }
+      prompts.log.success(
+        reverted.map((preview) => pc.cyan(preview.name)).join("\n")
+      );
+
+      if (options.install) {
+        const packer =
+          options.packer ??
+          (await detectProjectPackageManager(root)) ??
+          detectPackageManager();
+        await installDependencies(packer, root);
+      }
+      prompts.outro(pc.green(`Stopped using ${reverted.length} preview(s)`));
+    }),
+  // Recovers package.json files left modified by an interrupted publish
+  restore: t.procedure.mutation(async () => {
+    prompts.intro(pc.bold(pc.bgBlueBright(pc.black(" preview-pkg restore "))));
+
+    const restored = restoreStaleJournals();
+    if (restored.length === 0) {
+      prompts.outro(pc.dim("Nothing to restore"));
+      return;
+    }
+
+    prompts.log.success(restored.map((file) => pc.cyan(file)).join("\n"));
+    prompts.outro(
+      pc.green(
+        `Restored ${restored.length} package.json file${
+          restored.length > 1 ? "s" : ""
+        }`
+      )
+    );
+  }),
+  list: t.procedure
+    .input(
+      v.tuple([
+        v.optional(v.pipe(v.string(), v.description("name")), ""),
+        v.object({ owner: Owner }),
+      ])
+    )
+    .query(async ({ input: [name, { owner }] }) => {
+      prompts.intro(pc.bold(pc.bgBlueBright(pc.black(" preview-pkg list "))));
+
+      const credentials = await requireCredentials("listing packages", owner);
+      if (!credentials) return;
+      const username = owner ?? credentials.username;
+
+      const s1 = prompts.spinner();
+      s1.start("Fetching published packages...");
+      const { packages } = await apiRequest(
+        `/${username}/-/packages${
+          name ? `?name=${encodeURIComponent(name)}` : ""
+        }`,
+        v.object({ packages: v.array(PublishedPackage) }),
+        { token: credentials.token }
+      ).catch((error) => {
+        s1.stop("Failed to fetch published packages");
+        throw error;
+      });
+      s1.stop(
+        `Found ${packages.length} published version${
+          packages.length === 1 ? "" : "s"
+        }`
+      );
+
+      const byName = new Map<string, PublishedPackage[]>();
+      for (const p of packages) {
+        byName.set(p.name, [...(byName.get(p.name) ?? []), p]);
+      }
+      for (const [name, versions] of byName) {
+        prompts.note(
+          versions
+            .sort((a, b) => a.uploaded.localeCompare(b.uploaded))
+            .map((p) =>
+              [
+                pc.green(p.version),
+                pc.dim(formatBytes(p.size)),
+                pc.dim(new Date(p.uploaded).toLocaleString()),
+                pc.dim(p.sha256?.slice(0, 12) ?? ""),
+                pc.dim(p.publishedBy ?? ""),
+                p.private ? pc.red("private") : "",
+                p.expires
+                  ? pc.yellow(`expires ${new Date(p.expires).toLocaleString()}`)
+                  : "",
+              ].join("  ")
+            )
+            .join("\n"),
+          pc.cyan(name)
+        );
+      }
+
+      prompts.outro(
+        packages.length > 0
+          ? pc.green(`${byName.size} package${byName.size === 1 ? "" : "s"}`)
+          : pc.yellow("No published packages found")
+      );
+    }),
+  info: t.procedure
+    .input(
+      v.tuple([
+        v.pipe(v.string(), v.description("package")),
+        v.object({ owner: Owner }),
+      ])
+    )
+    .query(async ({ input: [spec, { owner }] }) => {
+      prompts.intro(pc.bold(pc.bgBlueBright(pc.black(" preview-pkg info "))));
+
+      const credentials = await requireCredentials(
+        "inspecting packages",
+        owner
+      );
+      if (!credentials) return;
+      const username = owner ?? credentials.username;
+
+      const { name, version } = parsePackageSpec(spec);
+      const info = await apiRequest(
+        `/${username}/-/packages/${name}@${version}`,
+        PublishedPackageInfo,
+        { token: credentials.token }
+      );
+
+      const dependencies = Object.entries(
+        (info.manifest?.dependencies as Record<string, string>) ?? {}
+      );
+
+      prompts.note(
+        [
+          `${pc.bold("URL:")} ${pc.underline(pc.blue(info.url))}`,
+          `${pc.bold("Size:")} ${formatBytes(info.size)}`,
+          `${pc.bold("SHA-256:")} ${info.sha256 ?? pc.dim("unknown")}`,
+          `${pc.bold("Published:")} ${new Date(info.uploaded).toLocaleString()}`,
+          `${pc.bold("Published by:")} ${
+            info.publishedBy ?? pc.dim("unknown")
+          }`,
+          `${pc.bold("Visibility:")} ${
+            info.private ? pc.red("private") : "public"
+          }`,
+          `${pc.bold("Expires:")} ${
+            info.expires ? new Date(info.expires).toLocaleString() : "never"
+          }`,
+          ...(typeof info.manifest?.version === "string"
+            ? [`${pc.bold("package.json version:")} ${info.manifest.version}`]
+            : []),
+          ...(dependencies.length > 0
+            ? [
+                "",
+                pc.bold("Dependencies:"),
+                ...dependencies.map(
+                  ([dep, range]) => `  ${pc.cyan(dep)} ${pc.dim(range)}`
+                ),
+              ]
+            : []),
+        ].join("\n"),
+        `${pc.cyan(info.name)}@${pc.green(info.version)}`
+      );
+
+      prompts.outro(pc.green("Done"));
+    }),
+  unpublish: t.procedure
+    .input(
+      v.tuple([
+        v.pipe(v.array(v.string()), v.description("packages")),
+        v.object({
+          yes: v.optional(
+            v.pipe(v.boolean(), v.description("Skip the confirmation prompt")),
+            false
+          ),
+          owner: Owner,
+        }),
+      ])
+    )
+    .mutation(async ({ input }) => {
+      prompts.intro(
+        pc.bold(pc.bgBlueBright(pc.black(" preview-pkg unpublish ")))
+      );
+
+      const credentials = await requireCredentials(
+        "unpublishing packages",
+        input[1].owner
+      );
+      if (!credentials) return;
+      const username = input[1].owner ?? credentials.username;
+
+      const specs = input[0].map(parsePackageSpec);
+      if (specs.length === 0) {
+        prompts.log.error("Please specify at least one package@version");
+        prompts.outro(pc.red("Nothing to unpublish"));
+        return;
+      }
+
+      if (!input[1].yes) {
+        const confirmed = await prompts.confirm({
+          message: `Unpublish ${specs.length} package${
+            specs.length > 1 ? "s" : ""
+          }? This cannot be undone`,
+          active: "Yes",
+          inactive: "No",
+          initialValue: false,
+        });
+        if (prompts.isCancel(confirmed) || !confirmed) {
+          prompts.outro(pc.yellow("Cancelled"));
+          return;
+        }
+      }
+
+      let failed = 0;
+      await prompts.tasks(
+        specs.map(({ name, version }) => ({
+          title: pc.bold(`Unpublishing ${pc.cyan(name)}@${pc.green(version)}`),
+          task: async () => {
+            try {
+              await apiRequest(
+                `/${username}/${name}@${version}`,
+                v.object({ message: v.string() }),
+                { method: "DELETE", token: credentials.token }
+              );
+              return pc.bold(pc.green(`Unpublished ${name}@${version}`));
+            } catch (error) {
+              failed++;
+              return pc.bold(
+                pc.red(error instanceof Error ? error.message : String(error))
+              );
+            }
+          },
+        }))
+      );
+
+      if (failed > 0) {
+        prompts.outro(pc.red(`Failed to unpublish ${failed} package(s)`));
+      } else {
+        prompts.outro(pc.green("✅ Unpublished successfully!"));
+      }
+    }),
+  tag: t.router({
+    add: t.procedure
+      .input(
+        v.tuple([
+          v.pipe(v.string(), v.description("package")),
+          v.pipe(Tag, v.description("tag")),
+          v.object({ owner: Owner }),
+        ])
+      )
+      .mutation(async ({ input: [spec, tag, { owner }] }) => {
+        const credentials = await requireCredentials("tagging packages", owner);
+        if (!credentials) return;
+        const username = owner ?? credentials.username;
+
+        const { name, version } = parsePackageSpec(spec);
+        await apiRequest(
+          `/${username}/-/tags/${name}@${tag}`,
+          v.object({ message: v.string() }),
+          {
+            method: "PUT",
+            token: credentials.token,
+            body: JSON.stringify({ version }),
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+        prompts.log.success(
+          `${pc.cyan(name)}@${pc.magenta(tag)} now points to ${pc.green(
+            version
+          )}`
+        );
+      }),
+    rm: t.procedure
+      .input(
+        v.tuple([
+          v.pipe(v.string(), v.description("package")),
+          v.pipe(Tag, v.description("tag")),
+          v.object({ owner: Owner }),
+        ])
+      )
+      .mutation(async ({ input: [name, tag, { owner }] }) => {
+        const credentials = await requireCredentials("removing tags", owner);
+        if (!credentials) return;
+        const username = owner ?? credentials.username;
+
+        await apiRequest(
+          `/${username}/-/tags/${name}@${tag}`,
+          v.object({ message: v.string() }),
+          { method: "DELETE", token: credentials.token }
+        );
+        prompts.log.success(
+          `Removed tag ${pc.magenta(tag)} of ${pc.cyan(name)}`
+        );
+      }),
+    ls: t.procedure
+      .input(
+        v.tuple([
+          v.pipe(v.string(), v.description("package")),
+          v.object({ owner: Owner }),
+        ])
+      )
+      .query(async ({ input: [name, { owner }] }) => {
+        const credentials = await requireCredentials("listing tags", owner);
+        if (!credentials) return;
+        const username = owner ?? credentials.username;
+
+        const { tags } = await apiRequest(
+          `/${username}/-/tags/${name}`,
+          v.object({ tags: v.record(v.string(), v.string()) }),
+          { token: credentials.token }
+        );
+        const entries = Object.entries(tags);
+        if (entries.length === 0) {
+          prompts.log.warn(`${pc.cyan(name)} has no tags`);
+          return;
+        }
+        prompts.note(
+          entries
+            .map(([tag, version]) => `${pc.magenta(tag)}: ${pc.green(version)}`)
+            .join("\n"),
+          pc.cyan(name)
+        );
+      }),
+  }),
+  retention: t.procedure
+    .input(
+      v.tuple([
+        v.optional(v.pipe(Duration, v.description("ttl")), ""),
+        v.object({ owner: Owner }),
+      ])
+    )
+    .mutation(async ({ input: [ttl, { owner }] }) => {
+      prompts.intro(
+        pc.bold(pc.bgBlueBright(pc.black(" preview-pkg retention ")))
+      );
+
+      const credentials = await requireCredentials("changing retention", owner);
+      if (!credentials) return;
+      const username = owner ?? credentials.username;
+
+      const settings = await apiRequest(
+        `/${username}/-/settings`,
+        Settings,
+        ttl
+          ? {
+              method: "PUT",
+              token: credentials.token,
+              body: JSON.stringify({
+                defaultTtl: ttl === "never" ? null : ttl,
+              }),
+              headers: { "Content-Type": "application/json" },
+            }
+          : { token: credentials.token }
+      );
+
+      prompts.outro(
+        settings.defaultTtl
+          ? `Packages expire ${pc.bold(
+              pc.yellow(settings.defaultTtl)
+            )} after publishing by default`
+          : `Packages never expire by default`
+      );
+    }),
+  token: t.router({
+    create: t.procedure
+      .input(
+        v.tuple([
+          v.pipe(v.string(), v.description("name")),
+          v.object({ owner: Owner }),
+        ])
+      )
+      .mutation(async ({ input: [name, { owner }] }) => {
+        const credentials = await requireCredentials("creating tokens", owner);
+        if (!credentials) return;
+        const username = owner ?? credentials.username;
+
+        const { token } = await apiRequest(`/${username}/-/tokens`, ReadToken, {
+          method: "POST",
+          token: credentials.token,
+          body: JSON.stringify({ name }),
+          headers: { "Content-Type": "application/json" },
+        });
+
+        prompts.note(
+          [
+            pc.bold(token),
+            "",
+            pc.dim("Add it to your .npmrc to install private packages:"),
+            `//${new URL(API_URL_BASE).host}/:_authToken=${token}`,
+          ].join("\n"),
+          `Read token for ${pc.cyan(username)}`
+        );
+        prompts.log.warn("This token won't be shown again");
+      }),
+    ls: t.procedure
+      .input(v.object({ owner: Owner }))
+      .query(async ({ input: { owner } }) => {
+        const credentials = await requireCredentials("listing tokens", owner);
+        if (!credentials) return;
+        const username = owner ?? credentials.username;
+
+        const { tokens } = await apiRequest(
+          `/${username}/-/tokens`,
+          v.object({ tokens: v.array(v.omit(ReadToken, ["token"])) }),
+          { token: credentials.token }
+        );
+        if (tokens.length === 0) {
+          prompts.log.warn(`${pc.cyan(username)} has no read tokens`);
+          return;
+        }
+        prompts.note(
+          tokens
+            .map((t) =>
+              [
+                pc.magenta(t.id),
+                pc.bold(t.name),
+                pc.dim(t.createdBy),
+                pc.dim(new Date(t.createdAt).toLocaleString()),
+              ].join("  ")
+            )
+            .join("\n"),
+          `Read tokens of ${pc.cyan(username)}`
+        );
+      }),
+    revoke: t.procedure
+      .input(
+        v.tuple([
+          v.pipe(v.string(), v.description("id")),
+          v.object({ owner: Owner }),
+        ])
+      )
+      .mutation(async ({ input: [id, { owner }] }) => {
+        const credentials = await requireCredentials("revoking tokens", owner);
+        if (!credentials) return;
+        const username = owner ?? credentials.username;
+
+        await apiRequest(
+          `/${username}/-/tokens/${id}`,
+          v.object({ message: v.string() }),
+          { method: "DELETE", token: credentials.token }
+        );
+        prompts.log.success(`Revoked token ${pc.magenta(id)}`);
+      }),
+  }),
+  team: t.procedure
+    .input(
+      v.tuple([
+        v.optional(v.pipe(v.string(), v.description("team")), ""),
+        v.object({
+          owner: v.pipe(v.string(), v.description("GitHub organization")),
+        }),
+      ])
+    )
+    .mutation(async ({ input: [team, { owner }] }) => {
+      prompts.intro(pc.bold(pc.bgBlueBright(pc.black(" preview-pkg team "))));
+
+      const credentials = await requireCredentials(
+        "changing publish team",
+        owner
+      );
+      if (!credentials) return;
+
+      const settings = await apiRequest(
+        `/${owner}/-/settings`,
+        Settings,
+        team
+          ? {
+              method: "PUT",
+              token: credentials.token,
+              body: JSON.stringify({
+                publishTeam: team === "none" ? null : team,
+              }),
+              headers: { "Content-Type": "application/json" },
+            }
+          : { token: credentials.token }
+      );
+
+      prompts.outro(
+        settings.publishTeam
+          ? `Only members of ${pc.bold(
+              pc.cyan(settings.publishTeam)
+            )} can publish to ${owner}`
+          : `All members of ${owner} can publish`
+      );
+    }),
+  serve: t.procedure
+    .input(
+      v.object({
+        port: v.optional(
+          v.pipe(
+            v.number(),
+            v.integer(),
+            v.minValue(0),
+            v.maxValue(65535),
+            v.description("Port to listen on")
+          ),
+          1337
+        ),
+        host: v.optional(
+          v.pipe(
+            v.string(),
+            v.description(
+              "Address to listen on, use 0.0.0.0 to accept other machines"
+            )
+          ),
+          "127.0.0.1"
+        ),
+        dir: v.optional(
+          v.pipe(
+            v.string(),
+            v.description("Directory to store packages in"),
+            v.transform((dir) => resolve(dir))
+          ),
+          join(CONFIG_DIR, "storage")
+        ),
+        auth: v.optional(
+          v.pipe(
+            v.picklist(["github", "none"]),
+            v.description(
+              "How requests are authenticated, none lets anyone who can reach the server publish and read private packages"
+            )
+          ),
+          "github"
+        ),
+      })
+    )
+    .mutation(async ({ input: options }) => {
+      prompts.intro(pc.bold(pc.bgBlueBright(pc.black(" preview-pkg serve "))));
+
+      // Only loaded here, the other commands don't need the server
+      const { FileSystemStorage, startServer } =
+        await import("@preview-pkg/web/server");
+      const server = await startServer({
+        port: options.port,
+        hostname: options.host,
+        storage: new FileSystemStorage(options.dir),
+        auth: options.auth,
+      }).catch((error: NodeJS.ErrnoException) => {
+        prompts.log.error(
+          error.code === "EADDRINUSE"
+            ? `Port ${options.port} is already in use, pass another one with --port`
+            : error.message
+        );
+        prompts.outro(pc.red("Failed to start the server"));
+        process.exit(1);
+      });
+
+      prompts.note(
+        [
+          `URL: ${pc.underline(pc.blue(server.url))}`,
+          `Storage: ${pc.cyan(options.dir)}`,
+          `Authentication: ${
+            options.auth === "none"
+              ? pc.yellow("none, anyone who can reach the server can publish")
+              : "GitHub"
+          }`,
+        ].join("\n"),
+        "Serving previews"
+      );
+      prompts.log.info(
+        `Publish to it with ${pc.cyan(`PREVIEW_PKG_API_URL=${server.url}`)}${
+          options.auth === "none"
+            ? ` and ${pc.cyan("PREVIEW_PKG_USERNAME=<namespace>")}`
+            : ""
+        }`
+      );
+
+      await new Promise<void>((resolve) => {
+        const stop = () => {
+          process.off("SIGINT", stop);
+          process.off("SIGTERM", stop);
+          resolve();
+        };
+        process.on("SIGINT", stop);
+        process.on("SIGTERM", stop);
+      });
+      await server.close();
+      prompts.outro(pc.dim("Server stopped"));
     }),
 });
 
+// Loaded the first time a command needs it, so an invalid config only fails
+// the commands using it
+let projectConfig: ReturnType<typeof loadProjectConfig> | undefined;
+
+/**
+ * Loads the config of the project in the current directory, and points the
+ * CLI to its API. Reports an invalid config and returns its error.
+ */
+async function requireProjectConfig() {
+  projectConfig ??= loadProjectConfig(process.cwd()).then((loaded) => {
+    if (loaded?.config.apiUrl) setApiUrl(loaded.config.apiUrl);
+    return loaded;
+  });
+  try {
+    return { projectConfig: await projectConfig };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    prompts.log.error(message);
+    prompts.outro(pc.red("Invalid config"));
+    return { error: message };
+  }
+}
+
+// `namespace` is checked when it's an organization, see `checkOrganizationScope`
+async function requireCredentials(action: string, namespace?: string) {
+  // The project config can point to another API
+  if ("error" in (await requireProjectConfig())) return null;
+
+  const credentials = await GithubCredentialsManager.getAuth();
+  if (!credentials) {
+    prompts.log.error(
+      `Please login using GitHub with \`preview-pkg login\` or set PREVIEW_PKG_GITHUB_TOKEN before ${action}.`
+    );
+    prompts.outro(pc.red("Authentication required"));
+    return null;
+  }
+  if (namespace && !checkOrganizationScope(credentials, namespace)) return null;
+  return credentials;
+}
+
+/**
+ * Logins from before organization namespaces were supported lack the
+ * `read:org` scope, the API can't tell them apart from non-members
+ */
+function checkOrganizationScope(credentials: Auth, namespace: string) {
+  if (
+    namespace === credentials.username ||
+    !credentials.scopes ||
+    // Higher organization scopes include read:org
+    ["read:org", "write:org", "admin:org"].some((scope) =>
+      credentials.scopes!.includes(scope)
+    )
+  )
+    return true;
+
+  prompts.log.error(
+    `Your GitHub login doesn't have the read:org scope needed to use the ${namespace} namespace, run \`preview-pkg login\` again to grant it.`
+  );
+  prompts.outro(pc.red("Missing read:org scope"));
+  return false;
+}
+
 type PackOptions = {
   packageManager: PackageManager;
   cwd: string;
   packageIdentifier: string;
-  keepFile?: boolean;
+  // Directory the tarball is moved to, it's up to the caller to clean it up
+  outDir: string;
 };
 
 async function pack(options: PackOptions) {
-  const { packageManager, cwd, packageIdentifier, keepFile = false } = options;
+  const { packageManager, cwd, packageIdentifier, outDir } = options;
 
   const packArgs = ["pack"];
 
@@ -386,9 +1982,8 @@ async function pack(options: PackOptions) {
   if (packageManager === "yarn")
     packArgs.push("--filename", `${packageIdentifier}.tgz`);
 
-  const res = await x(packageManager, packArgs, {
-    nodeOptions: { cwd, stdio: "inherit" },
-  });
+  // Output is only shown if packing fails, packages are packed in parallel
+  const res = await x(packageManager, packArgs, { nodeOptions: { cwd } });
 
   const output = (res.stdout + res.stderr).trim();
 
@@ -400,62 +1995,161 @@ async function pack(options: PackOptions) {
     );
   }
 
-  const filename = join(cwd, `${packageIdentifier}.tgz`);
-  const file = await readFile(filename).catch(() => null);
-  const stats = await stat(filename);
-  if (!file) {
+  const packedFile = join(cwd, `${packageIdentifier}.tgz`);
+  const stats = await stat(packedFile).catch(() => null);
+  if (!stats) {
     throw new Error(
       `Pack command returned success but no output file was found, this is likely a bug`
     );
   }
 
-  const sha256 = createHash("sha256").update(file).digest("hex");
+  // Copy instead of rename, the temp directory can be on another device
+  const filename = join(outDir, `${packageIdentifier}.tgz`);
+  await copyFile(packedFile, filename);
+  await unlink(packedFile);
 
-  // Cleanup the file once we have everything we need
-  if (!keepFile) await unlink(filename);
+  return {
+    filename,
+    sha256: await hashFile(filename),
+    size: stats.size,
+    output,
+  };
+}
+
+// Hash while streaming, tarballs can be larger than we want to hold in memory
+async function hashFile(filename: string) {
+  const hash = createHash("sha256");
+  await pipeline(createReadStream(filename), hash);
+  return hash.digest("hex");
+}
 
-  return { filename, file, sha256, size: stats.size, output };
+/**
+ * Swaps the package.json of a packed tarball for the rewritten one, so dry
+ * runs show what would be published without writing to the packages
+ */
+async function replacePackedManifest(filename: string, contents: string) {
+  const replaced = `${filename}.tmp`;
+  await writeFile(
+    replaced,
+    replaceTarballFile(
+      (await openAsBlob(filename)).stream(),
+      "package.json",
+      new TextEncoder().encode(contents)
+    )
+  );
+  await rename(replaced, filename);
+  return {
+    sha256: await hashFile(filename),
+    size: (await stat(filename)).size,
+  };
 }
 
-async function readPackageJson(path: string): Promise<PackageJson | null> {
+async function commentOnPullRequest(
+  contents: CommentContents,
+  prNumber?: number
+) {
+  const s = prompts.spinner();
+  s.start("Commenting on the pull request...");
   try {
-    const contents = await readFile(path, "utf-8");
-    return JSON.parse(contents) as PackageJson;
-  } catch {
-    return null;
+    const octokit = await GithubCredentialsManager.getCommentOctokit();
+    if (!octokit) {
+      s.stop("Failed to comment on the pull request");
+      prompts.log.warn(
+        "Set GITHUB_TOKEN to a token that can write to pull requests to comment"
+      );
+      return;
+    }
+
+    const pr = await findPullRequest(octokit, process.cwd(), prNumber);
+    if (!pr) {
+      s.stop("No pull request found");
+      prompts.log.warn(
+        "Could not find an open pull request for the current branch, pass its number with --pr"
+      );
+      return;
+    }
+
+    const { url, created } = await upsertComment(
+      octokit,
+      pr,
+      formatComment(contents)
+    );
+    s.stop(
+      `${created ? "Commented" : "Updated the comment"} on ${pr.owner}/${pr.repo}#${pr.number}`
+    );
+    prompts.log.info(pc.underline(pc.blue(url)));
+  } catch (error) {
+    // Publishing already succeeded, so a failed comment is only a warning
+    s.stop("Failed to comment on the pull request");
+    prompts.log.warn(error instanceof Error ? error.message : String(error));
   }
 }
 
+// Result of a single package, as printed by `publish --json`
+type PackageResult = {
+  name: string;
+  // Version the package was published as, not the one in package.json
+  version: string;
+  url: string;
+  tagUrl: string | null;
+  sha256: string | null;
+  size: number | null;
+  status: "published" | "exists" | "failed" | "dry-run";
+  error: string | null;
+  // Failed because of the network or the server, publishing again may work
+  retriable: boolean;
+};
+
+type PublishResult = {
+  version: string | null;
+  namespace: string | null;
+  tag: string | null;
+  packages: PackageResult[];
+  // Set when publishing failed before any package was uploaded
+  error: string | null;
+};
+
+// Sends everything written to stdout to stderr, returns a function writing to
+// the real stdout
+function redirectStdout() {
+  const write = process.stdout.write.bind(process.stdout);
+  process.stdout.write = process.stderr.write.bind(
+    process.stderr
+  ) as typeof process.stdout.write;
+  return (text: string) => write(text);
+}
+
 async function writeDeps(
+  journal: Journal,
   pJsonPath: string,
   originalContents: string,
-  pJson: PackageJson,
-  deps: Map<string, string>
+  contents: string
 ) {
-  // Hijack dependencies to point to our published URLs
-  hijackDeps(deps, pJson.dependencies);
-  hijackDeps(deps, pJson.devDependencies);
-  hijackDeps(deps, pJson.optionalDependencies);
+  // Keep the original contents around in case we never get to restore them
+  journal.record(pJsonPath, originalContents);
 
   // Write the modified package.json
-  await writeFile(pJsonPath, JSON.stringify(pJson, null, 2));
-
-  // Return a restore function that restores the original contents
-  return () => writeFile(pJsonPath, originalContents);
+  await writeFile(pJsonPath, contents);
 }
 
-function hijackDeps(
-  newDeps: Map<string, string>,
-  oldDeps?: Record<string, string>
-) {
-  if (!oldDeps) {
+// The output is only shown if installing fails, it's mostly progress bars
+async function installDependencies(packer: PackageManager, cwd: string) {
+  const s = prompts.spinner();
+  s.start(`Running ${packer} install...`);
+  const res = await x(packer, ["install"], {
+    nodeOptions: { cwd },
+    throwOnError: false,
+  });
+  if (res.exitCode === 0) {
+    s.stop("Installed dependencies");
     return;
   }
-  for (const [newDep, url] of newDeps) {
-    if (newDep in oldDeps) {
-      oldDeps[newDep] = url;
-    }
-  }
+  s.stop(pc.red(`${packer} install failed`));
+  prompts.log.error((res.stderr || res.stdout).trim());
+  prompts.outro(
+    pc.red("package.json was updated, fix the error and install again")
+  );
+  process.exit(1);
 }
 
 function detectPackageManager(): PackageManager {
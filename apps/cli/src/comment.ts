@@ -0,0 +1,212 @@
+import { readFile } from "node:fs/promises";
+import { x } from "tinyexec";
+import type { Octokit } from "octokit";
+import type { PackageManager } from "./project-config";
+
+// Hidden marker used to find the comment again, so it's updated instead of
+// posting a new one on every push
+const COMMENT_MARKER = "<!-- preview-pkg -->";
+
+// Comments made with the GITHUB_TOKEN of an Actions run are posted by this bot
+const ACTIONS_BOT = "github-actions[bot]";
+
+const PACKAGE_MANAGERS: PackageManager[] = ["npm", "pnpm", "yarn", "bun"];
+
+export type PullRequest = { owner: string; repo: string; number: number };
+
+export type CommentPackage = {
+  name: string;
+  url: string;
+  tagUrl: string | null;
+};
+
+export type CommentContents = {
+  version: string;
+  tag: string | null;
+  packages: CommentPackage[];
+  // Names of packages that failed to publish
+  failed: string[];
+};
+
+const git = async (cwd: string, ...args: string[]) => {
+  const res = await x("git", args, { nodeOptions: { cwd } });
+  return res.exitCode === 0 ? res.stdout.trim() : null;
+};
+
+// Matches both https://github.com/owner/repo.git and git@github.com:owner/repo.git
+const parseGithubRemote = (url: string) => {
+  const match = url.match(/github\.com[:/]([^/]+)\/([^/]+?)(?:\.git)?\/?$/);
+  return match ? { owner: match[1]!, repo: match[2]! } : null;
+};
+
+async function readActionsEvent() {
+  const eventPath = process.env.GITHUB_EVENT_PATH;
+  if (!eventPath) return null;
+  return readFile(eventPath, "utf-8")
+    .then(
+      (contents) =>
+        JSON.parse(contents) as {
+          pull_request?: { number: number };
+          issue?: { number: number; pull_request?: unknown };
+        }
+    )
+    .catch(() => null);
+}
+
+/**
+ * Finds the pull request to comment on, from the event or ref of the GitHub
+ * Actions run, or the open pull request of the current branch. Passing
+ * `number` only looks up the repository.
+ */
+export async function findPullRequest(
+  octokit: Octokit,
+  cwd: string,
+  number?: number
+): Promise<PullRequest | null> {
+  let repository = process.env.GITHUB_REPOSITORY
+    ? parseGithubRemote(`github.com/${process.env.GITHUB_REPOSITORY}`)
+    : null;
+  if (!repository) {
+    const remote = await git(cwd, "remote", "get-url", "origin");
+    repository = remote ? parseGithubRemote(remote) : null;
+  }
+  if (!repository) return null;
+  if (number) return { ...repository, number };
+
+  const event = await readActionsEvent();
+  const eventNumber =
+    event?.pull_request?.number ??
+    (event?.issue?.pull_request ? event.issue.number : undefined);
+  if (eventNumber) return { ...repository, number: eventNumber };
+
+  // Pull requests from forks can't be found by their branch, but their runs
+  // check out refs/pull/<number>/merge
+  const refNumber = process.env.GITHUB_REF?.match(/^refs\/pull\/(\d+)\//)?.[1];
+  if (refNumber) return { ...repository, number: Number(refNumber) };
+
+  // GITHUB_HEAD_REF is only set for pull request events, pushes use GITHUB_REF_NAME
+  const branch =
+    process.env.GITHUB_HEAD_REF ||
+    process.env.GITHUB_REF_NAME ||
+    (await git(cwd, "rev-parse", "--abbrev-ref", "HEAD"));
+  if (!branch || branch === "HEAD") return null;
+
+  const { data: pulls } = await octokit.rest.pulls.list({
+    ...repository,
+    head: `${repository.owner}:${branch}`,
+    state: "open",
+  });
+  return pulls[0] ? { ...repository, number: pulls[0].number } : null;
+}
+
+const installCommand = (packageManager: PackageManager, urls: string[]) =>
+  `${packageManager} ${packageManager === "yarn" ? "add" : "install"} ${urls.join(
+    " "
+  )}`;
+
+export function formatComment(contents: CommentContents): string {
+  const lines = [
+    COMMENT_MARKER,
+    "### Preview packages",
+    "",
+    `Published version \`${contents.version}\`${
+      contents.tag ? `, tagged as \`${contents.tag}\`` : ""
+    }`,
+    "",
+  ];
+
+  if (contents.packages.length > 0) {
+    lines.push(
+      contents.tag ? "| Package | Version | Tag |" : "| Package | Version |",
+      contents.tag ? "| --- | --- | --- |" : "| --- | --- |",
+      ...contents.packages.map(
+        (pkg) =>
+          `| \`${pkg.name}\` | [${contents.version}](${pkg.url}) |${
+            contents.tag
+              ? ` ${pkg.tagUrl ? `[${contents.tag}](${pkg.tagUrl})` : "-"} |`
+              : ""
+          }`
+      ),
+      ""
+    );
+
+    // Tag URLs always point to the latest version, so prefer them
+    const urls = contents.packages.map((pkg) => pkg.tagUrl ?? pkg.url);
+    for (const packageManager of PACKAGE_MANAGERS) {
+      lines.push(
+        `<details${packageManager === "npm" ? " open" : ""}>`,
+        `<summary>Install with ${packageManager}</summary>`,
+        "",
+        "```bash",
+        installCommand(packageManager, urls),
+        "```",
+        "",
+        "</details>",
+        ""
+      );
+    }
+  }
+
+  if (contents.failed.length > 0) {
+    lines.push(
+      `> [!WARNING]`,
+      `> ${contents.failed.length} package(s) failed to publish: ${contents.failed
+        .map((name) => `\`${name}\``)
+        .join(", ")}`,
+      ""
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// Installation tokens, like the GITHUB_TOKEN of Actions, can't look up the
+// user they belong to
+const commentAuthor = (octokit: Octokit) =>
+  octokit.rest.users.getAuthenticated().then(
+    ({ data }) => data.login,
+    () => ACTIONS_BOT
+  );
+
+/**
+ * Updates the comment left by a previous run, or creates it, returns the URL
+ * of the comment. Comments of other users are never updated, even if they
+ * contain the marker
+ */
+export async function upsertComment(
+  octokit: Octokit,
+  pr: PullRequest,
+  body: string
+): Promise<{ url: string; created: boolean }> {
+  const [author, comments] = await Promise.all([
+    commentAuthor(octokit),
+    octokit.paginate(octokit.rest.issues.listComments, {
+      owner: pr.owner,
+      repo: pr.repo,
+      issue_number: pr.number,
+      per_page: 100,
+    }),
+  ]);
+  const existing = comments.find(
+    (comment) =>
+      comment.user?.login === author && comment.body?.startsWith(COMMENT_MARKER)
+  );
+
+  if (existing) {
+    const { data } = await octokit.rest.issues.updateComment({
+      owner: pr.owner,
+      repo: pr.repo,
+      comment_id: existing.id,
+      body,
+    });
+    return { url: data.html_url, created: false };
+  }
+
+  const { data } = await octokit.rest.issues.createComment({
+    owner: pr.owner,
+    repo: pr.repo,
+    issue_number: pr.number,
+    body,
+  });
+  return { url: data.html_url, created: true };
+}
@@ -1,5 +1,17 @@
+import os from "node:os";
+import path from "node:path";
+
 export const GITHUB_CLIENT_ID = "Ov23liXdjtVSG9IY4TwE";
-export const API_URL_BASE =
+export let API_URL_BASE =
   process.env.PREVIEW_PKG_API_URL ||
   process.env.DEFAULT_API_URL ||
   "http://localhost:1337";
+
+// Used by project config files, the environment variable still takes precedence
+export function setApiUrl(url: string) {
+  if (!process.env.PREVIEW_PKG_API_URL) API_URL_BASE = url.replace(/\/$/, "");
+}
+// Audience of GitHub Actions OIDC tokens, must match the API
+export const OIDC_AUDIENCE = "preview-pkg";
+// Credentials, publish journals and previews in use are kept here
+export const CONFIG_DIR = path.join(os.homedir(), ".config", "preview-pkg");
@@ -1,10 +1,9 @@
 import path from "node:path";
-import os from "node:os";
 import { mkdir, readFile, unlink, writeFile } from "node:fs/promises";
 import * as v from "valibot";
 import pc from "picocolors";
 import * as prompts from "@clack/prompts";
-import { GITHUB_CLIENT_ID } from "./config";
+import { CONFIG_DIR, GITHUB_CLIENT_ID, OIDC_AUDIENCE } from "./config";
 import { createOAuthDeviceAuth } from "@octokit/auth-oauth-device";
 import open from "open";
 import { Octokit } from "octokit";
@@ -18,19 +17,23 @@ export type GithubOAuthAppAuthentication = v.InferOutput<
   typeof GithubOAuthAppAuthentication
 >;
 
+export type Auth = {
+  token: string;
+  // Namespace packages are published under
+  username: string;
+  // OAuth scopes of the token, null if they're unknown or don't apply
+  scopes: string[] | null;
+};
+
 export class GithubCredentialsManager {
-  static credentialPath = path.join(
-    os.homedir(),
-    ".config",
-    "preview-pkg",
-    "github-credentials.json"
-  );
+  static credentialPath = path.join(CONFIG_DIR, "github-credentials.json");
   static spinner = prompts.spinner();
 
   static auth = createOAuthDeviceAuth({
     clientId: GITHUB_CLIENT_ID,
     clientType: "oauth-app",
-    scopes: ["user:email"],
+    // read:org is needed to publish to organization namespaces
+    scopes: ["user:email", "read:org"],
     onVerification: async (verification) => {
       console.log();
       prompts.intro(
@@ -135,6 +138,98 @@ export class GithubCredentialsManager {
     };
   }
 
+  /**
+   * Resolves the credentials used for API requests. Non-interactive sources
+   * come first so CI doesn't need `login`: a namespace from
+   * PREVIEW_PKG_USERNAME for servers running with `--auth none`, a GitHub
+   * token from PREVIEW_PKG_GITHUB_TOKEN, then the OIDC token of the GitHub
+   * Actions run, and finally the credentials saved by `login`
+   */
+  static async getAuth(): Promise<Auth | null> {
+    // Servers without authentication ignore the token
+    const envUsername = process.env.PREVIEW_PKG_USERNAME;
+    if (envUsername)
+      return { token: "none", username: envUsername, scopes: null };
+
+    const envToken = process.env.PREVIEW_PKG_GITHUB_TOKEN;
+    if (envToken) {
+      const octokit = new Octokit({ auth: envToken });
+      const user = await octokit.rest.users.getAuthenticated().catch(() => {
+        throw new Error(
+          "PREVIEW_PKG_GITHUB_TOKEN is not a valid GitHub user token, use GitHub Actions OIDC instead of GITHUB_TOKEN"
+        );
+      });
+      return {
+        token: envToken,
+        username: user.data.login,
+        scopes: parseScopes(user.headers["x-oauth-scopes"]),
+      };
+    }
+
+    const { ACTIONS_ID_TOKEN_REQUEST_URL, ACTIONS_ID_TOKEN_REQUEST_TOKEN } =
+      process.env;
+    if (ACTIONS_ID_TOKEN_REQUEST_URL && ACTIONS_ID_TOKEN_REQUEST_TOKEN) {
+      return this.getActionsAuth(
+        ACTIONS_ID_TOKEN_REQUEST_URL,
+        ACTIONS_ID_TOKEN_REQUEST_TOKEN
+      );
+    }
+
+    const credentials = await this.getCredentials();
+    if (!credentials) return null;
+    return {
+      token: credentials.token,
+      username: await this.getUsername(),
+      scopes: credentials.scopes,
+    };
+  }
+
+  // Requires the `id-token: write` permission in the workflow
+  static async getActionsAuth(
+    requestUrl: string,
+    requestToken: string
+  ): Promise<Auth> {
+    const url = new URL(requestUrl);
+    url.searchParams.set("audience", OIDC_AUDIENCE);
+
+    const res = await fetch(url, {
+      headers: { Authorization: `bearer ${requestToken}` },
+    });
+    if (!res.ok) {
+      throw new Error(
+        `Failed to get GitHub Actions OIDC token: ${res.status} ${res.statusText}`
+      );
+    }
+
+    const { value: token } = v.parse(
+      v.object({ value: v.string() }),
+      await res.json()
+    );
+    // The API verifies the token, we only need to know the namespace
+    const claims = v.parse(
+      v.pipe(
+        v.string(),
+        v.parseJson(),
+        v.object({ repository_owner: v.string() })
+      ),
+      Buffer.from(token.split(".")[1] ?? "", "base64url").toString("utf-8")
+    );
+    return { token, username: claims.repository_owner, scopes: null };
+  }
+
+  /**
+   * Octokit for commenting on pull requests. The OIDC token of GitHub Actions
+   * only works with our API, so GITHUB_TOKEN is preferred there, it needs the
+   * `pull-requests: write` permission
+   */
+  static async getCommentOctokit(): Promise<Octokit | null> {
+    const token =
+      process.env.GITHUB_TOKEN ||
+      process.env.PREVIEW_PKG_GITHUB_TOKEN ||
+      (await this.getCredentials())?.token;
+    return token ? new Octokit({ auth: token }) : null;
+  }
+
   static async getOctokit(): Promise<Octokit> {
     const credentials = await this.getCredentials();
     if (!credentials) throw new Error("No credentials found");
@@ -147,3 +242,12 @@ export class GithubCredentialsManager {
     return user.data.login;
   }
 }
+
+// Fine-grained tokens don't have scopes, GitHub only lists them for OAuth tokens
+const parseScopes = (header: string | undefined) =>
+  header === undefined
+    ? null
+    : header
+        .split(",")
+        .map((scope) => scope.trim())
+        .filter(Boolean);
@@ -0,0 +1,72 @@
+import pc from "picocolors";
+
+type DiffLine = { type: " " | "-" | "+"; line: string };
+
+/**
+ * Line based diff of two texts using their longest common subsequence, only
+ * meant for small files like package.json
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.trimEnd().split("\n");
+  const b = after.trimEnd().split("\n");
+
+  // lengths[i][j] is the length of the LCS of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      diff.push({ type: " ", line: a[i++] });
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      diff.push({ type: "-", line: a[i++] });
+    } else {
+      diff.push({ type: "+", line: b[j++] });
+    }
+  }
+  return diff;
+}
+
+/**
+ * Formats the changed lines of a diff with `context` unchanged lines around
+ * them, returns null if nothing changed
+ */
+export function formatDiff(diff: DiffLine[], context = 2): string | null {
+  const changed = diff.flatMap((line, index) =>
+    line.type === " " ? [] : [index]
+  );
+  if (changed.length === 0) return null;
+
+  const visible = new Set(
+    changed.flatMap((index) =>
+      Array.from({ length: context * 2 + 1 }, (_, k) => index - context + k)
+    )
+  );
+
+  const lines: string[] = [];
+  diff.forEach(({ type, line }, index) => {
+    if (!visible.has(index)) {
+      if (visible.has(index - 1)) lines.push(pc.dim("  ..."));
+      return;
+    }
+    if (type === "+") lines.push(pc.green(`+ ${line}`));
+    else if (type === "-") lines.push(pc.red(`- ${line}`));
+    else lines.push(pc.dim(`  ${line}`));
+  });
+  return lines.join("\n");
+}
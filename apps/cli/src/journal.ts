@@ -0,0 +1,116 @@
+import path from "node:path";
+import {
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import * as v from "valibot";
+import { CONFIG_DIR } from "./config";
+
+const JOURNAL_DIR = path.join(CONFIG_DIR, "journal");
+
+const JournalFile = v.object({
+  pid: v.number(),
+  createdAt: v.string(),
+  // Original contents of every file modified by the run, keyed by absolute path
+  files: v.record(v.string(), v.string()),
+});
+type JournalFile = v.InferOutput<typeof JournalFile>;
+
+export type Journal = {
+  // Must be called before the file is modified
+  record(filePath: string, originalContents: string): void;
+  // Restores every recorded file and removes the journal, safe to call more than once
+  restore(): string[];
+};
+
+/**
+ * Keeps the original contents of files modified while publishing on disk, so
+ * they can be restored even if the process is killed before it cleans up.
+ * Everything is synchronous so it can run from `exit` and signal handlers.
+ */
+export function createJournal(): Journal {
+  const journalPath = path.join(
+    JOURNAL_DIR,
+    `${Date.now()}-${process.pid}.json`
+  );
+  const journal: JournalFile = {
+    pid: process.pid,
+    createdAt: new Date().toISOString(),
+    files: {},
+  };
+
+  return {
+    record(filePath, originalContents) {
+      if (filePath in journal.files) return;
+      journal.files[filePath] = originalContents;
+      mkdirSync(JOURNAL_DIR, { recursive: true });
+      writeFileSync(journalPath, JSON.stringify(journal, null, 2));
+    },
+    restore() {
+      const restored = restoreFiles(journal);
+      journal.files = {};
+      try {
+        unlinkSync(journalPath);
+      } catch {}
+      return restored;
+    },
+  };
+}
+
+const isRunning = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+const restoreFiles = (journal: JournalFile) =>
+  Object.entries(journal.files).map(([filePath, contents]) => {
+    writeFileSync(filePath, contents);
+    return filePath;
+  });
+
+/**
+ * Journals left behind by runs that didn't get to restore their files, runs
+ * that are still in progress are ignored
+ */
+export function findStaleJournals() {
+  let names: string[];
+  try {
+    names = readdirSync(JOURNAL_DIR).filter((name) => name.endsWith(".json"));
+  } catch {
+    return [];
+  }
+
+  return names.flatMap((name) => {
+    const journalPath = path.join(JOURNAL_DIR, name);
+    let parsed;
+    try {
+      parsed = v.safeParse(
+        JournalFile,
+        JSON.parse(readFileSync(journalPath, "utf-8"))
+      );
+    } catch {
+      return [];
+    }
+    if (!parsed.success || isRunning(parsed.output.pid)) return [];
+    return [{ path: journalPath, journal: parsed.output }];
+  });
+}
+
+/**
+ * Restores the files of every stale journal, returns the restored paths
+ */
+export function restoreStaleJournals() {
+  return findStaleJournals().flatMap(({ path: journalPath, journal }) => {
+    const restored = restoreFiles(journal);
+    unlinkSync(journalPath);
+    return restored;
+  });
+}
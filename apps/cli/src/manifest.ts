@@ -0,0 +1,110 @@
+import {
+  DEPENDENCY_FIELDS,
+  type Catalogs,
+  type PackageJson,
+  type WorkspacePackage,
+} from "./workspace";
+
+export type RewriteContext = {
+  // Preview URLs of the packages being published, keyed by package name
+  urls: Map<string, string>;
+  workspacePackages: WorkspacePackage[];
+  catalogs: Catalogs;
+};
+
+type DependencyField = (typeof DEPENDENCY_FIELDS)[number];
+
+// Same rules as `pnpm publish`, `workspace:^` becomes `^<version>` and so on
+function resolveWorkspaceRange(range: string, version: string) {
+  if (range === "*") return version;
+  if (range === "^" || range === "~") return `${range}${version}`;
+  // Relative paths like `workspace:../utils` point to the package itself
+  if (range.startsWith(".") || range.startsWith("/")) return version;
+  return range;
+}
+
+/**
+ * Resolves a single dependency for publishing, returns the new spec, `null`
+ * to drop the dependency, or an error describing why it can't be published
+ */
+function resolveDependency(
+  field: DependencyField,
+  name: string,
+  spec: string,
+  context: RewriteContext
+): { spec: string | null } | { error: string } {
+  // Peers are only checked against the installed version, so they keep a
+  // version range instead of pointing to the tarball
+  const url = context.urls.get(name);
+  if (url && field !== "peerDependencies") return { spec: url };
+
+  if (spec.startsWith("catalog:")) {
+    const catalog = spec.slice("catalog:".length) || "default";
+    const resolved = context.catalogs[catalog]?.[name];
+    if (!resolved)
+      return {
+        error: `${name} is not defined in the ${
+          catalog === "default" ? "default catalog" : `"${catalog}" catalog`
+        }`,
+      };
+    spec = resolved;
+  }
+
+  const target = context.workspacePackages.find(
+    (pkg) => pkg.pJson.name === name
+  );
+
+  if (spec.startsWith("workspace:") && !target)
+    return { error: `${name} (${spec}) is not a package of the workspace` };
+  if (!target) return { spec };
+
+  if (target.pJson.private && !url) {
+    // Consumers never install dev dependencies, they only matter to us
+    if (field === "devDependencies") return { spec: null };
+    return {
+      error: `${name} is a private workspace package, so it can't be installed from the preview`,
+    };
+  }
+
+  if (!spec.startsWith("workspace:")) return { spec };
+  if (!target.pJson.version)
+    return { error: `${name} (${spec}) has no version to resolve to` };
+  return {
+    spec: resolveWorkspaceRange(
+      spec.slice("workspace:".length),
+      target.pJson.version
+    ),
+  };
+}
+
+/**
+ * Points dependencies on the packages being published to their preview URLs
+ * and resolves `workspace:` and `catalog:` specs to plain version ranges.
+ * Modifies `pJson` in place and returns its new contents, along with anything
+ * that would make the published package uninstallable.
+ */
+export function rewriteManifest(
+  pJson: PackageJson,
+  context: RewriteContext
+): { contents: string; errors: string[] } {
+  const errors: string[] = [];
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const deps = pJson[field];
+    if (!deps) continue;
+
+    let dropped = false;
+    for (const [name, spec] of Object.entries(deps)) {
+      const resolved = resolveDependency(field, name, spec, context);
+      if ("error" in resolved) errors.push(`${field}: ${resolved.error}`);
+      else if (resolved.spec === null) {
+        delete deps[name];
+        dropped = true;
+      } else deps[name] = resolved.spec;
+    }
+    // Don't leave an empty object behind when every dependency was dropped
+    if (dropped && Object.keys(deps).length === 0) delete pJson[field];
+  }
+
+  return { contents: JSON.stringify(pJson, null, 2), errors };
+}
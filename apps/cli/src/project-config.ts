@@ -0,0 +1,105 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "node:path";
+import { inspect } from "node:util";
+import { createJiti } from "jiti";
+import * as v from "valibot";
+
+export const PackageManager = v.picklist(["pnpm", "bun", "yarn", "npm"]);
+export type PackageManager = v.InferOutput<typeof PackageManager>;
+
+// Same format the API accepts, e.g. 12h, 7d, 2w or never
+export const Duration = v.pipe(
+  v.string(),
+  v.regex(
+    /^(never|[1-9]\d{0,3}[hdw])$/,
+    "Duration must be like 12h, 7d, 2w or never"
+  )
+);
+
+// Tags share the format of versions, since both are used in package URLs
+export const Tag = v.pipe(
+  v.string(),
+  v.regex(
+    /^[a-z0-9-]{1,32}$/,
+    "Tags can only contain lowercase letters, numbers and dashes"
+  )
+);
+
+export const ProjectConfig = v.strictObject({
+  // Globs of package directories, relative to the config file
+  packages: v.optional(v.array(v.string())),
+  // Names of packages that are never published, globs allowed
+  exclude: v.optional(v.array(v.string())),
+  packer: v.optional(PackageManager),
+  ttl: v.optional(Duration),
+  tag: v.optional(Tag),
+  apiUrl: v.optional(v.pipe(v.string(), v.url())),
+  // Shell command run in every package directory before it's packed,
+  // instead of the build script of each package
+  build: v.optional(v.pipe(v.string(), v.nonEmpty())),
+  // How many packages are built, packed and uploaded at the same time
+  concurrency: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+});
+export type ProjectConfig = v.InferOutput<typeof ProjectConfig>;
+
+const CONFIG_FILES = [
+  "preview-pkg.config.ts",
+  "preview-pkg.config.mts",
+  "preview-pkg.config.js",
+  "preview-pkg.config.mjs",
+  "preview-pkg.config.json",
+];
+
+async function readConfigFile(path: string): Promise<unknown> {
+  if (path.endsWith(".json")) return JSON.parse(await readFile(path, "utf-8"));
+  // jiti lets us load TypeScript configs without a build step
+  const jiti = createJiti(import.meta.url);
+  return jiti.import(path, { default: true });
+}
+
+/**
+ * Looks for a config file, or a `"preview-pkg"` key in package.json, from
+ * `cwd` up to the root of the git repository
+ */
+export async function loadProjectConfig(
+  cwd: string
+): Promise<{ path: string; dir: string; config: ProjectConfig } | null> {
+  let dir = resolve(cwd);
+  while (true) {
+    let found: { path: string; value: unknown } | null = null;
+
+    const configFile = CONFIG_FILES.map((file) => join(dir, file)).find(
+      existsSync
+    );
+    if (configFile) {
+      found = { path: configFile, value: await readConfigFile(configFile) };
+    } else {
+      const pJson = await readFile(join(dir, "package.json"), "utf-8")
+        .then((contents) => JSON.parse(contents))
+        .catch(() => null);
+      if (pJson?.["preview-pkg"])
+        found = {
+          path: join(dir, "package.json"),
+          value: pJson["preview-pkg"],
+        };
+    }
+
+    if (found) {
+      const parsed = v.safeParse(ProjectConfig, found.value);
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid config in ${relative(cwd, found.path) || found.path}: ${inspect(
+            v.flatten(parsed.issues),
+            { depth: null, colors: false }
+          )}`
+        );
+      }
+      return { path: found.path, dir, config: parsed.output };
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir || existsSync(join(dir, ".git"))) return null;
+    dir = parent;
+  }
+}
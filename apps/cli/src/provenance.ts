@@ -0,0 +1,204 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  type KeyObject,
+} from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { x } from "tinyexec";
+import { CONFIG_DIR } from "./config";
+import type { PackageManager } from "./project-config";
+
+// Generated on the first signed publish, CI can pass a key through the environment instead
+export const SIGNING_KEY_FILE = join(CONFIG_DIR, "signing-key.pem");
+
+/**
+ * Where the packages were built from, collected once per publish before any
+ * package.json is rewritten, so the working tree is still as the user left it
+ */
+export type Source = {
+  git: {
+    commit: string;
+    branch: string | null;
+    // Credentials are stripped, CI checkouts often embed a token here
+    remote: string | null;
+    // Uncommitted changes to tracked or untracked files
+    dirty: boolean;
+  } | null;
+  packer: { name: PackageManager; version: string | null };
+  ci: {
+    provider: "github-actions" | "gitlab-ci" | "unknown";
+    runId: string | null;
+    runUrl: string | null;
+    workflow: string | null;
+    event: string | null;
+    actor: string | null;
+  } | null;
+};
+
+export type Provenance = Source & {
+  subject: { name: string; version: string; sha256: string };
+  createdAt: string;
+};
+
+export type ProvenanceSignature = {
+  // Base64 of the DER encoded SPKI public key
+  publicKey: string;
+  signature: string;
+};
+
+const run = async (cwd: string, command: string, ...args: string[]) => {
+  const res = await x(command, args, {
+    nodeOptions: { cwd },
+    throwOnError: false,
+  });
+  return res.exitCode === 0 ? res.stdout.trim() : null;
+};
+
+const stripCredentials = (remote: string) => {
+  try {
+    const url = new URL(remote);
+    url.username = "";
+    url.password = "";
+    return url.toString();
+  } catch {
+    // scp-like remotes such as git@github.com:owner/repo.git
+    return remote;
+  }
+};
+
+async function gitSource(cwd: string): Promise<Source["git"]> {
+  const commit = await run(cwd, "git", "rev-parse", "HEAD");
+  if (!commit) return null;
+
+  const [branch, remote, status] = await Promise.all([
+    run(cwd, "git", "rev-parse", "--abbrev-ref", "HEAD"),
+    run(cwd, "git", "remote", "get-url", "origin"),
+    run(cwd, "git", "status", "--porcelain"),
+  ]);
+  // Actions check out a detached HEAD, the branch is only in the environment
+  const ciBranch =
+    process.env.GITHUB_HEAD_REF ||
+    process.env.GITHUB_REF_NAME ||
+    process.env.CI_COMMIT_REF_NAME;
+
+  return {
+    commit,
+    branch: branch && branch !== "HEAD" ? branch : ciBranch || null,
+    remote: remote ? stripCredentials(remote) : null,
+    // Claiming a clean tree when git status failed would be worse than a false alarm
+    dirty: status === null || status.length > 0,
+  };
+}
+
+function ciSource(): Source["ci"] {
+  const env = process.env;
+  if (env.GITHUB_ACTIONS === "true") {
+    return {
+      provider: "github-actions",
+      runId: env.GITHUB_RUN_ID ?? null,
+      runUrl:
+        env.GITHUB_RUN_ID && env.GITHUB_REPOSITORY
+          ? `${env.GITHUB_SERVER_URL ?? "https://github.com"}/${env.GITHUB_REPOSITORY}/actions/runs/${env.GITHUB_RUN_ID}/attempts/${env.GITHUB_RUN_ATTEMPT ?? "1"}`
+          : null,
+      workflow: env.GITHUB_WORKFLOW_REF ?? env.GITHUB_WORKFLOW ?? null,
+      event: env.GITHUB_EVENT_NAME ?? null,
+      actor: env.GITHUB_ACTOR ?? null,
+    };
+  }
+  if (env.GITLAB_CI === "true") {
+    return {
+      provider: "gitlab-ci",
+      runId: env.CI_PIPELINE_ID ?? null,
+      runUrl: env.CI_PIPELINE_URL ?? null,
+      workflow: env.CI_CONFIG_PATH ?? null,
+      event: env.CI_PIPELINE_SOURCE ?? null,
+      actor: env.GITLAB_USER_LOGIN ?? null,
+    };
+  }
+  if (env.CI && env.CI !== "false") {
+    return {
+      provider: "unknown",
+      runId: null,
+      runUrl: null,
+      workflow: null,
+      event: null,
+      actor: null,
+    };
+  }
+  return null;
+}
+
+export async function collectSource(
+  cwd: string,
+  packer: PackageManager
+): Promise<Source> {
+  const [git, packerVersion] = await Promise.all([
+    gitSource(cwd),
+    run(cwd, packer, "--version"),
+  ]);
+  return {
+    git,
+    packer: { name: packer, version: packerVersion },
+    ci: ciSource(),
+  };
+}
+
+/**
+ * Serialized provenance of a single package, the exact string is what gets
+ * signed, so it's sent as is instead of being serialized again
+ */
+export const provenancePayload = (
+  source: Source,
+  subject: Provenance["subject"]
+) =>
+  JSON.stringify({
+    subject,
+    ...source,
+    createdAt: new Date().toISOString(),
+  } satisfies Provenance);
+
+/**
+ * Loads the Ed25519 key from PREVIEW_PKG_SIGNING_KEY, or the key file in the
+ * config directory, generating one if there is none yet
+ */
+export async function loadSigningKey(): Promise<KeyObject> {
+  const pem =
+    process.env.PREVIEW_PKG_SIGNING_KEY ||
+    (await readFile(SIGNING_KEY_FILE, "utf-8").catch(() => null));
+
+  let key: KeyObject;
+  if (pem) {
+    key = createPrivateKey(pem);
+  } else {
+    key = generateKeyPairSync("ed25519").privateKey;
+    await mkdir(CONFIG_DIR, { recursive: true });
+    await writeFile(
+      SIGNING_KEY_FILE,
+      key.export({ type: "pkcs8", format: "pem" }),
+      { mode: 0o600 }
+    );
+  }
+
+  if (key.asymmetricKeyType !== "ed25519")
+    throw new Error("The signing key must be an Ed25519 private key");
+  return key;
+}
+
+const publicKeyDer = (key: KeyObject) =>
+  createPublicKey(key).export({ type: "spki", format: "der" });
+
+// Same ID the API shows for signed packages
+export const signingKeyId = (key: KeyObject) =>
+  createHash("sha256").update(publicKeyDer(key)).digest("hex").slice(0, 16);
+
+export const signProvenance = (
+  payload: string,
+  key: KeyObject
+): ProvenanceSignature => ({
+  publicKey: publicKeyDer(key).toString("base64"),
+  signature: sign(null, Buffer.from(payload), key).toString("base64"),
+});
@@ -0,0 +1,102 @@
+import { workspaceDependencies, type WorkspacePackage } from "./workspace";
+
+/**
+ * Maps `items` with at most `concurrency` calls of `fn` in flight. If a call
+ * fails nothing new is started, and the first error is thrown once the calls
+ * in flight have settled. Results keep the order of `items`.
+ */
+export async function mapConcurrently<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const errors: unknown[] = [];
+
+  const worker = async () => {
+    while (next < items.length && errors.length === 0) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]!);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+  if (errors.length > 0) throw errors[0];
+  return results;
+}
+
+export type DependencyOrderOptions<T, R> = {
+  concurrency: number;
+  // Failures are expected to be reported in the result, not thrown
+  run: (pkg: T) => Promise<R>;
+  // Whether packages depending on `pkg` can go ahead after this result
+  succeeded: (result: R) => boolean;
+  // Result of `pkg` when it isn't run because `dependency` didn't succeed
+  skipped: (pkg: T, dependency: T, result: R) => R;
+  onProgress?: (running: T[], finished: number) => void;
+};
+
+/**
+ * Runs `run` for every package with at most `concurrency` runs at once, a
+ * package only starts after the workspace packages it depends on, and is
+ * skipped if one of them didn't succeed
+ */
+export async function runInDependencyOrder<T extends WorkspacePackage, R>(
+  packages: T[],
+  options: DependencyOrderOptions<T, R>
+): Promise<Map<T, R>> {
+  const results = new Map<T, R>();
+  const pending = [...packages];
+  const running = new Map<T, Promise<void>>();
+
+  const start = (pkg: T) => {
+    pending.splice(pending.indexOf(pkg), 1);
+    running.set(
+      pkg,
+      options.run(pkg).then((result) => {
+        results.set(pkg, result);
+        running.delete(pkg);
+      })
+    );
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    let progressed = false;
+    for (const pkg of [...pending]) {
+      const dependencies = workspaceDependencies(pkg, packages) as T[];
+
+      const failed = dependencies.find(
+        (dep) => results.has(dep) && !options.succeeded(results.get(dep)!)
+      );
+      if (failed) {
+        results.set(pkg, options.skipped(pkg, failed, results.get(failed)!));
+        pending.splice(pending.indexOf(pkg), 1);
+        progressed = true;
+        continue;
+      }
+
+      if (running.size >= options.concurrency) break;
+      if (!dependencies.every((dep) => results.has(dep))) continue;
+
+      start(pkg);
+      progressed = true;
+    }
+
+    options.onProgress?.([...running.keys()], results.size);
+    if (running.size > 0) {
+      await Promise.race(running.values());
+    } else if (!progressed) {
+      // Only packages in a dependency cycle are left, run them in any order
+      start(pending[0]!);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,169 @@
+import * as v from "valibot";
+import { createHash } from "node:crypto";
+import { open, readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { setTimeout } from "node:timers/promises";
+import { API_URL_BASE } from "./config";
+import type { ProvenanceSignature } from "./provenance";
+
+// Packages up to this size are sent in a single request, same limit as the API
+const MAX_FORM_UPLOAD_SIZE = 1024 * 1024 * 10;
+// R2 requires every part except the last one to be at least 5MiB
+const PART_SIZE = 1024 * 1024 * 8;
+// Every request is tried this many times, waiting twice as long between tries
+const MAX_ATTEMPTS = 4;
+const RETRY_DELAY = 500;
+
+const MultipartUpload = v.object({ uploadId: v.string() });
+const UploadedPart = v.object({ partNumber: v.number(), etag: v.string() });
+
+export type UploadOptions = {
+  username: string;
+  name: string;
+  version: string;
+  token: string;
+  filename: string;
+  sha256: string;
+  size: number;
+  ttl?: string;
+  private?: boolean;
+  // Serialized provenance, sent as is so the signature still matches
+  provenance?: string;
+  signature?: ProvenanceSignature;
+  // Called with the number of bytes uploaded so far
+  onProgress?: (uploaded: number) => void;
+};
+
+/**
+ * Server errors and requests that never got a response are worth retrying,
+ * anything else fails the same way every time
+ */
+export const isRetriableStatus = (status: number) => status >= 500;
+// fetch rejects with a TypeError when the request didn't get a response
+export const isRetriableError = (error: unknown) => error instanceof TypeError;
+
+async function fetchWithRetry(url: string, init: RequestInit) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const res = await fetch(url, init);
+      if (!isRetriableStatus(res.status) || attempt === MAX_ATTEMPTS)
+        return res;
+      await res.body?.cancel();
+    } catch (error) {
+      if (!isRetriableError(error) || attempt === MAX_ATTEMPTS) throw error;
+    }
+    // Jitter keeps parallel uploads from retrying in lockstep
+    await setTimeout(RETRY_DELAY * 2 ** (attempt - 1) * (0.5 + Math.random()));
+  }
+}
+
+/**
+ * Uploads a packed tarball, large tarballs are read from disk and sent in parts
+ * so they never have to fit in memory. Resolves with the response of the last
+ * request, which has the same shape no matter how the package was uploaded.
+ */
+export async function uploadTarball(options: UploadOptions): Promise<Response> {
+  const headers = { Authorization: `Bearer ${options.token}` };
+
+  if (options.size <= MAX_FORM_UPLOAD_SIZE) {
+    const form = new FormData();
+    form.append(
+      "tarball",
+      new File([await readFile(options.filename)], basename(options.filename))
+    );
+    form.append("sha256", options.sha256);
+    if (options.ttl) form.append("ttl", options.ttl);
+    if (options.private) form.append("private", "true");
+    if (options.provenance) form.append("provenance", options.provenance);
+    if (options.signature) {
+      form.append("publicKey", options.signature.publicKey);
+      form.append("signature", options.signature.signature);
+    }
+
+    const res = await fetchWithRetry(
+      `${API_URL_BASE}/${options.username}/${options.name}@${options.version}`,
+      { method: "POST", body: form, headers }
+    );
+    if (res.ok) options.onProgress?.(options.size);
+    return res;
+  }
+
+  const uploadUrl = `${API_URL_BASE}/${options.username}/-/uploads/${options.name}@${options.version}`;
+  const checksums = await partChecksums(options.filename, options.size);
+  const createRes = await fetchWithRetry(uploadUrl, {
+    method: "POST",
+    body: JSON.stringify({
+      sha256: options.sha256,
+      size: options.size,
+      parts: checksums,
+      ttl: options.ttl,
+      private: options.private ? "true" : undefined,
+      provenance: options.provenance,
+      ...options.signature,
+    }),
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+  if (!createRes.ok) return createRes;
+
+  const { uploadId } = v.parse(MultipartUpload, await createRes.json());
+  const partsUrl = (query: string) =>
+    `${uploadUrl}?uploadId=${encodeURIComponent(uploadId)}${query}`;
+
+  const file = await open(options.filename);
+  try {
+    const parts: v.InferOutput<typeof UploadedPart>[] = [];
+    const buffer = Buffer.alloc(PART_SIZE);
+    for (let offset = 0; offset < options.size; offset += PART_SIZE) {
+      const { bytesRead } = await file.read(buffer, 0, PART_SIZE, offset);
+      const partNumber = parts.length + 1;
+      const partRes = await fetchWithRetry(
+        partsUrl(`&partNumber=${partNumber}`),
+        {
+          method: "PUT",
+          body: buffer.subarray(0, bytesRead),
+          headers,
+        }
+      );
+      if (!partRes.ok) {
+        await abortUpload(partsUrl(""), headers);
+        return partRes;
+      }
+      parts.push(v.parse(UploadedPart, await partRes.json()));
+      options.onProgress?.(offset + bytesRead);
+    }
+
+    return await fetchWithRetry(partsUrl(""), {
+      method: "POST",
+      body: JSON.stringify({ parts }),
+      headers: { ...headers, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await abortUpload(partsUrl(""), headers);
+    throw error;
+  } finally {
+    await file.close();
+  }
+}
+
+// The API verifies every part against the checksum sent when the upload starts
+async function partChecksums(filename: string, size: number) {
+  const parts: string[] = [];
+  const file = await open(filename);
+  try {
+    const buffer = Buffer.alloc(PART_SIZE);
+    for (let offset = 0; offset < size; offset += PART_SIZE) {
+      const { bytesRead } = await file.read(buffer, 0, PART_SIZE, offset);
+      parts.push(
+        createHash("sha256").update(buffer.subarray(0, bytesRead)).digest("hex")
+      );
+    }
+  } finally {
+    await file.close();
+  }
+  return parts;
+}
+
+// Best effort, R2 cleans up abandoned uploads after a week anyway
+async function abortUpload(url: string, headers: Record<string, string>) {
+  await fetch(url, { method: "DELETE", headers }).catch(() => {});
+}
@@ -0,0 +1,332 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import * as v from "valibot";
+import { API_URL_BASE, CONFIG_DIR } from "./config";
+import { parsePackageSpec } from "./api";
+import type { PackageManager } from "./project-config";
+
+// What `use` changed in each project, so `unuse` can put it back
+const USED_DIR = join(CONFIG_DIR, "used");
+
+const Change = v.object({
+  // Absolute path of the package.json that was changed
+  file: v.string(),
+  // Path of the changed field, e.g. ["pnpm", "overrides", "react"]
+  field: v.array(v.string()),
+  // Value before the first `use`, null if the field didn't exist
+  previous: v.nullable(v.string()),
+});
+
+const UsedPreview = v.object({
+  name: v.string(),
+  url: v.string(),
+  changes: v.array(Change),
+});
+export type UsedPreview = v.InferOutput<typeof UsedPreview>;
+
+const UsedFile = v.object({
+  root: v.string(),
+  previews: v.array(UsedPreview),
+});
+
+export type PreviewSpec = { name: string; url: string };
+
+// Fields forcing every copy of a package in the tree to a version, so nested
+// dependencies use the preview too
+const OVERRIDE_FIELDS: Record<PackageManager, string[]> = {
+  npm: ["overrides"],
+  pnpm: ["pnpm", "overrides"],
+  yarn: ["resolutions"],
+  bun: ["overrides"],
+};
+
+// Dependencies are only replaced where they are, peers keep their range
+const REPLACED_DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+];
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+  ["package-lock.json", "npm"],
+];
+
+/**
+ * Parses `<username>/<package>@<version or tag>`, or a full preview URL
+ */
+export function parsePreviewSpec(spec: string): PreviewSpec {
+  const isUrl = /^https?:\/\//.test(spec);
+  const path = isUrl ? new URL(spec).pathname.slice(1) : spec;
+  const separator = path.indexOf("/");
+  if (separator <= 0)
+    throw new Error(
+      `Invalid preview "${spec}", expected format is username/package-name@version`
+    );
+
+  const { name, version } = parsePackageSpec(path.slice(separator + 1));
+  return {
+    name,
+    url: isUrl
+      ? spec
+      : `${API_URL_BASE}/${path.slice(0, separator)}/${name}@${version}`,
+  };
+}
+
+/**
+ * Package manager of the project at `root`, from the `packageManager` field or
+ * the lockfile, null if there is neither
+ */
+export async function detectProjectPackageManager(
+  root: string
+): Promise<PackageManager | null> {
+  const pJson = await readJsonFile(join(root, "package.json")).catch(
+    () => null
+  );
+  const declared = String(pJson?.json.packageManager ?? "").split("@")[0];
+  const managers = Object.keys(OVERRIDE_FIELDS) as PackageManager[];
+  if (managers.includes(declared as PackageManager))
+    return declared as PackageManager;
+
+  for (const [lockfile, packageManager] of LOCKFILES) {
+    const exists = await readFile(join(root, lockfile))
+      .then(() => true)
+      .catch(() => false);
+    if (exists) return packageManager;
+  }
+  return null;
+}
+
+type JsonFile = {
+  path: string;
+  json: Record<string, any>;
+  indent: string;
+  finalNewline: boolean;
+};
+
+// Keeps the indentation of the file, so only the changed lines show up in diffs
+async function readJsonFile(path: string): Promise<JsonFile> {
+  const contents = await readFile(path, "utf-8");
+  return {
+    path,
+    json: JSON.parse(contents),
+    indent: contents.match(/^[ \t]+(?=")/m)?.[0] ?? "  ",
+    finalNewline: contents.endsWith("\n"),
+  };
+}
+
+const writeJsonFile = (file: JsonFile) =>
+  writeFile(
+    file.path,
+    JSON.stringify(file.json, null, file.indent) +
+      (file.finalNewline ? "\n" : "")
+  );
+
+const getField = (json: Record<string, any>, field: string[]): unknown =>
+  field.reduce<any>((value, key) => value?.[key], json);
+
+function setField(json: Record<string, any>, field: string[], value: string) {
+  let parent = json;
+  for (const key of field.slice(0, -1)) {
+    if (typeof parent[key] !== "object" || parent[key] === null)
+      parent[key] = {};
+    parent = parent[key];
+  }
+  parent[field.at(-1)!] = value;
+}
+
+// Also removes objects left empty, e.g. `pnpm.overrides` created by `use`
+function deleteField(json: Record<string, any>, field: string[]) {
+  const parents = [json];
+  for (const key of field.slice(0, -1)) {
+    const parent = parents.at(-1)![key];
+    if (typeof parent !== "object" || parent === null) return;
+    parents.push(parent);
+  }
+  delete parents.at(-1)![field.at(-1)!];
+  for (let i = parents.length - 1; i > 0; i--) {
+    if (Object.keys(parents[i]!).length > 0) break;
+    delete parents[i - 1]![field[i - 1]!];
+  }
+}
+
+const usedFilePath = (root: string) =>
+  join(
+    USED_DIR,
+    `${createHash("sha256").update(root).digest("hex").slice(0, 16)}.json`
+  );
+
+export async function loadUsedPreviews(root: string): Promise<UsedPreview[]> {
+  const parsed = v.safeParse(
+    UsedFile,
+    await readFile(usedFilePath(root), "utf-8")
+      .then((contents) => JSON.parse(contents))
+      .catch(() => null)
+  );
+  return parsed.success && parsed.output.root === root
+    ? parsed.output.previews
+    : [];
+}
+
+async function saveUsedPreviews(root: string, previews: UsedPreview[]) {
+  if (previews.length === 0) {
+    await unlink(usedFilePath(root)).catch(() => {});
+    return;
+  }
+  await mkdir(USED_DIR, { recursive: true });
+  await writeFile(
+    usedFilePath(root),
+    JSON.stringify({ root, previews }, null, 2)
+  );
+}
+
+export type UseOptions = {
+  // Directory of the package that should depend on the previews
+  project: string;
+  // Workspace root, or the project itself, where overrides have to go
+  root: string;
+  packageManager: PackageManager;
+  previews: PreviewSpec[];
+};
+
+/**
+ * Points the dependencies of the project at the previews, adding them if they
+ * aren't dependencies yet, and overrides them for the whole dependency tree.
+ * Values from before the first `use` are kept so `unusePreviews` can restore
+ * them.
+ */
+export async function usePreviews(options: UseOptions): Promise<UsedPreview[]> {
+  const used = await loadUsedPreviews(options.root);
+  const files = new Map<string, JsonFile>();
+  const readFileOnce = async (path: string) => {
+    if (!files.has(path)) files.set(path, await readJsonFile(path));
+    return files.get(path)!;
+  };
+
+  const projectFile = await readFileOnce(join(options.project, "package.json"));
+  const rootFile = await readFileOnce(join(options.root, "package.json"));
+
+  const applied: UsedPreview[] = [];
+  for (const { name, url } of options.previews) {
+    const existing = used.find((preview) => preview.name === name);
+    const preview: UsedPreview = existing ?? { name, url, changes: [] };
+    if (!existing) used.push(preview);
+    preview.url = url;
+
+    const change = (file: JsonFile, field: string[]) => {
+      const recorded = preview.changes.some(
+        (change) =>
+          change.file === file.path &&
+          change.field.join("\0") === field.join("\0")
+      );
+      if (!recorded) {
+        const previous = getField(file.json, field);
+        preview.changes.push({
+          file: file.path,
+          field,
+          previous: typeof previous === "string" ? previous : null,
+        });
+      }
+      setField(file.json, field, url);
+    };
+
+    const dependencyFields = REPLACED_DEPENDENCY_FIELDS.filter(
+      (field) => typeof projectFile.json[field]?.[name] === "string"
+    );
+    for (const field of dependencyFields.length > 0
+      ? dependencyFields
+      : ["dependencies"])
+      change(projectFile, [field, name]);
+    change(rootFile, [...OVERRIDE_FIELDS[options.packageManager], name]);
+
+    applied.push(preview);
+  }
+
+  for (const file of files.values()) await writeJsonFile(file);
+  await saveUsedPreviews(options.root, used);
+  return applied;
+}
+
+export type UnuseResult = {
+  // Previews every change of which was reverted
+  reverted: UsedPreview[];
+  // Fields changed by hand after `use`, these are left alone
+  modified: Array<{ name: string; file: string; field: string }>;
+  // Files that couldn't be read, their changes are left alone too
+  unreadable: Array<{ name: string; file: string }>;
+  // Names that weren't used in the project
+  unknown: string[];
+};
+
+/**
+ * Restores everything `usePreviews` changed for `names`, or for every preview
+ * used in the project if none are passed. Changes that are left alone stay
+ * recorded, so a later call can still restore them.
+ */
+export async function unusePreviews(
+  root: string,
+  names: string[]
+): Promise<UnuseResult> {
+  const used = await loadUsedPreviews(root);
+  const selected =
+    names.length > 0
+      ? used.filter((preview) => names.includes(preview.name))
+      : used;
+  const result: UnuseResult = {
+    reverted: [],
+    modified: [],
+    unreadable: [],
+    unknown: names.filter(
+      (name) => !used.some((preview) => preview.name === name)
+    ),
+  };
+
+  const files = new Map<string, JsonFile | null>();
+  for (const preview of selected) {
+    const remaining: UsedPreview["changes"] = [];
+    for (const change of preview.changes) {
+      if (!files.has(change.file))
+        files.set(
+          change.file,
+          await readJsonFile(change.file).catch(() => null)
+        );
+      const file = files.get(change.file);
+      if (!file) {
+        if (
+          !result.unreadable.some(
+            ({ name, file }) => name === preview.name && file === change.file
+          )
+        )
+          result.unreadable.push({ name: preview.name, file: change.file });
+        remaining.push(change);
+        continue;
+      }
+
+      if (getField(file.json, change.field) !== preview.url) {
+        result.modified.push({
+          name: preview.name,
+          file: change.file,
+          field: change.field.join("."),
+        });
+        remaining.push(change);
+        continue;
+      }
+      if (change.previous === null) deleteField(file.json, change.field);
+      else setField(file.json, change.field, change.previous);
+    }
+
+    if (remaining.length === 0) result.reverted.push(preview);
+    preview.changes = remaining;
+  }
+
+  for (const file of files.values()) if (file) await writeJsonFile(file);
+  await saveUsedPreviews(
+    root,
+    used.filter((preview) => preview.changes.length > 0)
+  );
+  return result;
+}
@@ -0,0 +1,368 @@
+import { readFile } from "node:fs/promises";
+import { dirname, join, resolve, sep } from "node:path";
+import { glob } from "glob";
+import { x } from "tinyexec";
+import { parse as parseYaml } from "yaml";
+
+export type PackageJson = {
+  name?: string;
+  version?: string;
+  private?: boolean;
+  workspaces?:
+    | string[]
+    | {
+        packages?: string[];
+        catalog?: Record<string, string>;
+        catalogs?: Catalogs;
+      };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  [key: string]: any;
+};
+
+export type WorkspacePackage = {
+  // Absolute path of the package directory
+  path: string;
+  pJson: PackageJson;
+};
+
+// Named version catalogs, the unnamed `catalog` is stored as `default`
+export type Catalogs = Record<string, Record<string, string>>;
+
+export type Workspace = {
+  root: string;
+  patterns: string[];
+  catalogs: Catalogs;
+};
+
+export const DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+] as const;
+
+export async function readPackageJson(
+  path: string
+): Promise<PackageJson | null> {
+  try {
+    const contents = await readFile(path, "utf-8");
+    return JSON.parse(contents) as PackageJson;
+  } catch {
+    return null;
+  }
+}
+
+async function readWorkspaceConfig(dir: string): Promise<Workspace | null> {
+  // pnpm ignores the `workspaces` field, so its config takes precedence
+  const pnpmWorkspace = await readFile(
+    join(dir, "pnpm-workspace.yaml"),
+    "utf-8"
+  ).catch(() => null);
+  if (pnpmWorkspace !== null) {
+    const config = parseYaml(pnpmWorkspace) as {
+      packages?: string[];
+      catalog?: Record<string, string>;
+      catalogs?: Catalogs;
+    } | null;
+    return {
+      root: dir,
+      patterns: config?.packages ?? [],
+      catalogs: { ...config?.catalogs, default: config?.catalog ?? {} },
+    };
+  }
+
+  // npm, Yarn and Bun all read the `workspaces` field, Yarn 1 also allows
+  // the `{ packages: [] }` form, which Bun extends with catalogs
+  const pJson = await readPackageJson(join(dir, "package.json"));
+  const workspaces = pJson?.workspaces;
+  if (workspaces) {
+    const config = Array.isArray(workspaces)
+      ? { packages: workspaces }
+      : workspaces;
+    return {
+      root: dir,
+      patterns: config.packages ?? [],
+      // Bun also reads catalogs from the top level of package.json
+      catalogs: {
+        ...pJson.catalogs,
+        ...config.catalogs,
+        default: { ...pJson.catalog, ...config.catalog },
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Finds the closest workspace containing `cwd`, returns null outside of a
+ * monorepo
+ */
+export async function findWorkspace(cwd: string): Promise<Workspace | null> {
+  let dir = resolve(cwd);
+  while (true) {
+    const workspace = await readWorkspaceConfig(dir);
+    if (workspace) return workspace;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Expands the package globs of a workspace, `!` prefixed globs exclude packages
+ */
+export async function listWorkspacePackages(
+  workspace: Workspace
+): Promise<WorkspacePackage[]> {
+  const include = workspace.patterns.filter((p) => !p.startsWith("!"));
+  const exclude = workspace.patterns
+    .filter((p) => p.startsWith("!"))
+    .map((p) => `${p.slice(1).replace(/\/$/, "")}/package.json`);
+
+  const manifests = await glob(
+    include.map((p) => `${p.replace(/\/$/, "")}/package.json`),
+    {
+      cwd: workspace.root,
+      absolute: true,
+      ignore: ["**/node_modules/**", ...exclude],
+    }
+  );
+
+  const packages: WorkspacePackage[] = [];
+  for (const manifest of manifests.sort()) {
+    const pJson = await readPackageJson(manifest);
+    if (pJson) packages.push({ path: dirname(manifest), pJson });
+  }
+  return packages;
+}
+
+/**
+ * Workspace packages `pkg` depends on, through any dependency field
+ */
+export function workspaceDependencies(
+  pkg: WorkspacePackage,
+  packages: WorkspacePackage[]
+): WorkspacePackage[] {
+  const names = new Set(
+    DEPENDENCY_FIELDS.flatMap((field) => Object.keys(pkg.pJson[field] ?? {}))
+  );
+  return packages.filter(
+    (other) => other !== pkg && other.pJson.name && names.has(other.pJson.name)
+  );
+}
+
+// Follows dependency edges (or reverse edges for dependents) from `start`
+function walkGraph(
+  start: WorkspacePackage[],
+  packages: WorkspacePackage[],
+  direction: "dependencies" | "dependents"
+) {
+  const edges = (pkg: WorkspacePackage) =>
+    direction === "dependencies"
+      ? workspaceDependencies(pkg, packages)
+      : packages.filter((other) =>
+          workspaceDependencies(other, packages).includes(pkg)
+        );
+
+  const seen = new Set<WorkspacePackage>();
+  const queue = start.flatMap(edges);
+  while (queue.length > 0) {
+    const pkg = queue.shift()!;
+    if (seen.has(pkg)) continue;
+    seen.add(pkg);
+    queue.push(...edges(pkg));
+  }
+  return seen;
+}
+
+/**
+ * Adds every workspace package `selected` depends on, directly or not
+ */
+export function withDependencies(
+  selected: WorkspacePackage[],
+  packages: WorkspacePackage[]
+) {
+  const dependencies = walkGraph(selected, packages, "dependencies");
+  return packages.filter(
+    (pkg) => selected.includes(pkg) || dependencies.has(pkg)
+  );
+}
+
+/**
+ * Packages whose previews are outdated if `changed` are republished, which
+ * are the changed packages themselves and everything depending on them
+ */
+export function affectedPackages(
+  changed: WorkspacePackage[],
+  packages: WorkspacePackage[]
+) {
+  const dependents = walkGraph(changed, packages, "dependents");
+  return packages.filter((pkg) => changed.includes(pkg) || dependents.has(pkg));
+}
+
+/**
+ * Packages with files changed since `ref` branched off, including uncommitted
+ * and untracked files, returns null if git fails
+ */
+export async function changedPackages(
+  packages: WorkspacePackage[],
+  ref: string,
+  cwd: string
+): Promise<WorkspacePackage[] | null> {
+  const git = async (...args: string[]) => {
+    const res = await x("git", args, { nodeOptions: { cwd } });
+    return res.exitCode === 0 ? res.stdout.trim() : null;
+  };
+
+  const root = await git("rev-parse", "--show-toplevel");
+  const base = await git("merge-base", ref, "HEAD");
+  if (root === null || base === null) return null;
+
+  // Both commands print paths relative to the repository root
+  const diff = await git("-C", root, "diff", "--name-only", base);
+  const untracked = await git(
+    "-C",
+    root,
+    "ls-files",
+    "--others",
+    "--exclude-standard"
+  );
+  if (diff === null || untracked === null) return null;
+
+  const files = [...diff.split("\n"), ...untracked.split("\n")]
+    .filter(Boolean)
+    .map((file) => resolve(root, file));
+
+  // Longest paths first so files of nested packages aren't attributed to their parents
+  const byDepth = [...packages].sort((a, b) => b.path.length - a.path.length);
+  const changed = new Set<WorkspacePackage>();
+  for (const file of files) {
+    const owner = byDepth.find((pkg) => file.startsWith(pkg.path + sep));
+    if (owner) changed.add(owner);
+  }
+  return packages.filter((pkg) => changed.has(pkg));
+}
+
+/**
+ * Orders packages so their workspace dependencies come first, packages that
+ * can't be ordered because of a dependency cycle are returned in `cyclic` and
+ * appended as is
+ */
+export function sortByDependencies<T extends WorkspacePackage>(
+  packages: T[]
+): { sorted: T[]; cyclic: T[] } {
+  const remaining = new Map(
+    packages.map((pkg) => [pkg, workspaceDependencies(pkg, packages)])
+  );
+  const sorted: T[] = [];
+
+  while (remaining.size > 0) {
+    const ready = [...remaining.keys()].filter((pkg) =>
+      remaining.get(pkg)!.every((dep) => !remaining.has(dep as T))
+    );
+    if (ready.length === 0) break;
+    for (const pkg of ready) {
+      sorted.push(pkg);
+      remaining.delete(pkg);
+    }
+  }
+
+  const cyclic = [...remaining.keys()];
+  return { sorted: [...sorted, ...cyclic], cyclic };
+}
+
+const escapeRegExp = (str: string) => str.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+
+const globToRegExp = (pattern: string, separator: boolean) =>
+  new RegExp(
+    `^${pattern
+      .split(/(\*\*|\*)/)
+      .map((part) =>
+        part === "**"
+          ? ".*"
+          : part === "*"
+            ? separator
+              ? "[^/]*"
+              : ".*"
+            : escapeRegExp(part)
+      )
+      .join("")}$`
+  );
+
+/**
+ * Whether a package name matches any of the patterns, `*` matches anything
+ */
+export const matchesPackageName = (name: string, patterns: string[]) =>
+  patterns.some((pattern) => globToRegExp(pattern, false).test(name));
+
+// Forward slashes so the same globs work on Windows
+const toPosix = (path: string) => path.split(sep).join("/");
+
+/**
+ * Selects packages like pnpm's `--filter`, a selector is a package name (globs
+ * allowed) or a path starting with `.` or wrapped in `{}`. `pkg...` also
+ * selects its dependencies, `...pkg` its dependents, a `^` next to the dots
+ * leaves `pkg` itself out, and a leading `!` excludes the selection.
+ */
+export function filterWorkspacePackages(
+  packages: WorkspacePackage[],
+  selectors: string[],
+  cwd: string
+): WorkspacePackage[] {
+  const select = (selector: string) => {
+    let pattern = selector;
+    const dependents = pattern.startsWith("...");
+    if (dependents) pattern = pattern.slice(3);
+    const excludeSelfDependents = dependents && pattern.startsWith("^");
+    if (excludeSelfDependents) pattern = pattern.slice(1);
+
+    const dependencies = pattern.endsWith("...");
+    if (dependencies) pattern = pattern.slice(0, -3);
+    const excludeSelfDependencies = dependencies && pattern.endsWith("^");
+    if (excludeSelfDependencies) pattern = pattern.slice(0, -1);
+
+    let matched: WorkspacePackage[];
+    if (pattern.startsWith(".") || /^\{.*\}$/.test(pattern)) {
+      const dir = toPosix(resolve(cwd, pattern.replace(/^\{(.*)\}$/, "$1")));
+      // A plain directory also selects every package inside of it
+      const matcher = dir.includes("*")
+        ? globToRegExp(dir, true)
+        : new RegExp(`^${escapeRegExp(dir)}(/.*)?$`);
+      matched = packages.filter((pkg) => matcher.test(toPosix(pkg.path)));
+    } else {
+      const matcher = globToRegExp(pattern, false);
+      matched = packages.filter(
+        (pkg) => pkg.pJson.name && matcher.test(pkg.pJson.name)
+      );
+    }
+
+    const selected = new Set<WorkspacePackage>(
+      excludeSelfDependents || excludeSelfDependencies ? [] : matched
+    );
+    if (dependencies)
+      walkGraph(matched, packages, "dependencies").forEach((pkg) =>
+        selected.add(pkg)
+      );
+    if (dependents)
+      walkGraph(matched, packages, "dependents").forEach((pkg) =>
+        selected.add(pkg)
+      );
+    return selected;
+  };
+
+  const include = selectors.filter((s) => !s.startsWith("!"));
+  const exclude = selectors.filter((s) => s.startsWith("!"));
+
+  const selected = new Set(
+    include.length > 0 ? include.flatMap((s) => [...select(s)]) : packages
+  );
+  for (const selector of exclude) {
+    select(selector.slice(1)).forEach((pkg) => selected.delete(pkg));
+  }
+
+  return packages.filter((pkg) => selected.has(pkg));
+}
@@ -0,0 +1,5 @@
+import { build } from "tsdown";
+
+export default async function setup() {
+  await build({ logLevel: "warn" });
+}
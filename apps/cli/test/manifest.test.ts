@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { rewriteManifest, type RewriteContext } from "../src/manifest";
+import type { PackageJson, WorkspacePackage } from "../src/workspace";
+
+const workspacePackage = (pJson: PackageJson): WorkspacePackage => ({
+  path: `/workspace/packages/${pJson.name}`,
+  pJson,
+});
+
+const context = (overrides: Partial<RewriteContext> = {}): RewriteContext => ({
+  urls: new Map([["core", "https://pkg.rx2.dev/alice/core@abc1234"]]),
+  workspacePackages: [
+    workspacePackage({ name: "core", version: "1.2.0" }),
+    workspacePackage({ name: "utils", version: "2.0.0" }),
+    workspacePackage({ name: "config", version: "0.0.0", private: true }),
+  ],
+  catalogs: { default: { zod: "^3.23.0" }, react18: { react: "^18.3.1" } },
+  ...overrides,
+});
+
+describe("rewriteManifest", () => {
+  it("points dependencies being published to their previews", () => {
+    const pJson: PackageJson = {
+      name: "ui",
+      dependencies: { core: "workspace:*" },
+      devDependencies: { core: "workspace:^" },
+      optionalDependencies: { core: "^1.0.0" },
+    };
+    const { errors } = rewriteManifest(pJson, context());
+
+    expect(errors).toEqual([]);
+    const url = "https://pkg.rx2.dev/alice/core@abc1234";
+    expect(pJson.dependencies).toEqual({ core: url });
+    expect(pJson.devDependencies).toEqual({ core: url });
+    expect(pJson.optionalDependencies).toEqual({ core: url });
+  });
+
+  it("keeps version ranges for peers", () => {
+    const pJson: PackageJson = {
+      name: "ui",
+      peerDependencies: { core: "workspace:^", utils: "workspace:~" },
+    };
+    rewriteManifest(pJson, context());
+    expect(pJson.peerDependencies).toEqual({ core: "^1.2.0", utils: "~2.0.0" });
+  });
+
+  it.each([
+    ["workspace:*", "2.0.0"],
+    ["workspace:^", "^2.0.0"],
+    ["workspace:~", "~2.0.0"],
+    ["workspace:^1.5.0", "^1.5.0"],
+    ["workspace:../utils", "2.0.0"],
+  ])("resolves %s like pnpm publish", (spec, resolved) => {
+    const pJson: PackageJson = { name: "ui", dependencies: { utils: spec } };
+    rewriteManifest(pJson, context());
+    expect(pJson.dependencies).toEqual({ utils: resolved });
+  });
+
+  it("resolves catalogs", () => {
+    const pJson: PackageJson = {
+      name: "ui",
+      dependencies: { zod: "catalog:" },
+      peerDependencies: { react: "catalog:react18" },
+    };
+    const { errors } = rewriteManifest(pJson, context());
+    expect(errors).toEqual([]);
+    expect(pJson.dependencies).toEqual({ zod: "^3.23.0" });
+    expect(pJson.peerDependencies).toEqual({ react: "^18.3.1" });
+  });
+
+  it("leaves other dependencies alone", () => {
+    const pJson: PackageJson = {
+      name: "ui",
+      dependencies: { react: "^19.0.0", utils: "^2.0.0" },
+    };
+    rewriteManifest(pJson, context());
+    expect(pJson.dependencies).toEqual({ react: "^19.0.0", utils: "^2.0.0" });
+  });
+
+  it("drops private dev dependencies", () => {
+    const pJson: PackageJson = {
+      name: "ui",
+      devDependencies: { config: "workspace:*" },
+    };
+    const { errors, contents } = rewriteManifest(pJson, context());
+    expect(errors).toEqual([]);
+    expect(JSON.parse(contents)).toEqual({ name: "ui" });
+  });
+
+  it("reports dependencies that can't be installed from the preview", () => {
+    const pJson: PackageJson = {
+      name: "ui",
+      dependencies: {
+        config: "workspace:*",
+        missing: "workspace:*",
+        vue: "catalog:vue3",
+      },
+    };
+    const { errors } = rewriteManifest(pJson, context());
+    expect(errors).toEqual([
+      "dependencies: config is a private workspace package, so it can't be installed from the preview",
+      "dependencies: missing (workspace:*) is not a package of the workspace",
+      'dependencies: vue is not defined in the "vue3" catalog',
+    ]);
+  });
+});
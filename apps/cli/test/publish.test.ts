@@ -0,0 +1,321 @@
+import { cp, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { x } from "tinyexec";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { MemoryStorage, startServer } from "@preview-pkg/web/server";
+import type { PackageManager } from "../src/project-config";
+
+const CLI = fileURLToPath(new URL("../dist/cli.js", import.meta.url));
+const FIXTURES = fileURLToPath(new URL("./fixtures", import.meta.url));
+
+// Workspace fixture each packer publishes, npm, Yarn and Bun share the
+// `workspaces` field while pnpm needs its own file
+const PACKERS: Array<[PackageManager, string]> = [
+  ["npm", "npm-workspace"],
+  ["pnpm", "pnpm-workspace"],
+  ["yarn", "npm-workspace"],
+  ["bun", "npm-workspace"],
+];
+
+// Packers that aren't installed are skipped
+const installed = async (packer: string) => {
+  try {
+    return (await x(packer, ["--version"])).exitCode === 0;
+  } catch {
+    return false;
+  }
+};
+const available = Object.fromEntries(
+  await Promise.all(
+    PACKERS.map(async ([packer]) => [packer, await installed(packer)] as const)
+  )
+);
+
+type PublishResult = {
+  version: string | null;
+  namespace: string | null;
+  packages: Array<{
+    name: string;
+    version: string;
+    url: string;
+    sha256: string | null;
+    status: string;
+  }>;
+  error: string | null;
+};
+
+let storage: MemoryStorage;
+let server: Awaited<ReturnType<typeof startServer>>;
+let home: string;
+const directories: string[] = [];
+
+beforeAll(async () => {
+  storage = new MemoryStorage();
+  // Without authentication the CLI only needs PREVIEW_PKG_USERNAME
+  server = await startServer({
+    port: 0,
+    hostname: "127.0.0.1",
+    storage,
+    auth: "none",
+  });
+  home = await mkdtemp(join(tmpdir(), "preview-pkg-home-"));
+  directories.push(home);
+});
+
+afterAll(async () => {
+  await server.close();
+  for (const dir of directories)
+    await rm(dir, { recursive: true, force: true });
+});
+
+async function copyFixture(name: string) {
+  const dir = await mkdtemp(join(tmpdir(), `preview-pkg-${name}-`));
+  directories.push(dir);
+  await cp(join(FIXTURES, name), dir, { recursive: true });
+  return dir;
+}
+
+async function publish(
+  cwd: string,
+  args: string[],
+  env: Record<string, string> = {}
+) {
+  const res = await x("node", [CLI, "publish", ...args, "--json"], {
+    nodeOptions: {
+      cwd,
+      env: {
+        ...process.env,
+        HOME: home,
+        PREVIEW_PKG_API_URL: server.url,
+        PREVIEW_PKG_USERNAME: "alice",
+        ...env,
+      },
+    },
+  });
+  return {
+    exitCode: res.exitCode,
+    result: JSON.parse(res.stdout) as PublishResult,
+    output: res.stderr,
+  };
+}
+
+// Reads package.json of a published preview back from the server
+async function publishedManifest(url: string) {
+  const res = await fetch(`${url}/-/files/package.json`);
+  expect(res.status).toBe(200);
+  return (await res.json()) as Record<string, any>;
+}
+
+describe.each(PACKERS)("publishing with %s", (packer, fixture) => {
+  const version = `${packer}-fixture`;
+  const previewUrl = (name: string) => `${server.url}/alice/${name}@${version}`;
+
+  it.skipIf(!available[packer])(
+    "publishes every package of the workspace",
+    async () => {
+      const dir = await copyFixture(fixture);
+      const { exitCode, result, output } = await publish(dir, [
+        "--workspace",
+        "--packer",
+        packer,
+        "--version",
+        version,
+      ]);
+
+      expect(exitCode, output).toBe(0);
+      expect(result.namespace).toBe("alice");
+      expect(
+        result.packages.map(({ name, status }) => ({ name, status }))
+      ).toEqual(
+        expect.arrayContaining([
+          { name: "@fixture/utils", status: "published" },
+          { name: "@fixture/core", status: "published" },
+        ])
+      );
+
+      // The uploaded tarballs are the ones the CLI packed
+      for (const pkg of result.packages) {
+        const object = await storage.head(
+          `preview-pkg/alice/${pkg.name.replace("/", "__")}@${version}`
+        );
+        expect(object?.sha256).toBe(pkg.sha256);
+      }
+
+      const core = await publishedManifest(previewUrl("@fixture/core"));
+      expect(core.version).toBe("1.0.0");
+      expect(core.dependencies).toEqual({
+        "@fixture/utils": previewUrl("@fixture/utils"),
+      });
+
+      // Rewritten manifests are only used for packing
+      for (const name of ["utils", "core"]) {
+        const path = join("packages", name, "package.json");
+        expect(await readFile(join(dir, path), "utf-8")).toBe(
+          await readFile(join(FIXTURES, fixture, path), "utf-8")
+        );
+      }
+    }
+  );
+
+  it.skipIf(!available[packer])(
+    "reports packages that were already published",
+    async () => {
+      const dir = await copyFixture(fixture);
+      const args = ["--workspace", "--packer", packer, "--version", version];
+      await publish(dir, args);
+
+      const { exitCode, result } = await publish(dir, args);
+      expect(exitCode).toBe(0);
+      expect(result.packages.map(({ status }) => status)).not.toContain(
+        "published"
+      );
+      expect(result.packages.every(({ status }) => status === "exists")).toBe(
+        true
+      );
+    }
+  );
+});
+
+describe.skipIf(!available.pnpm)("pnpm workspaces", () => {
+  it("resolves workspace ranges and catalogs", async () => {
+    const dir = await copyFixture("pnpm-workspace");
+    const { exitCode, output } = await publish(dir, [
+      "--workspace",
+      "--packer",
+      "pnpm",
+      "--version",
+      "pnpm-catalogs",
+    ]);
+    expect(exitCode, output).toBe(0);
+
+    const preview = (name: string) =>
+      `${server.url}/alice/${name}@pnpm-catalogs`;
+    const utils = await publishedManifest(preview("@fixture/utils"));
+    expect(utils.dependencies).toEqual({ zod: "^3.23.0" });
+
+    // Peers keep a range, package managers check them against the installed version
+    const ui = await publishedManifest(preview("@fixture/ui"));
+    expect(ui.dependencies).toEqual({
+      "@fixture/utils": preview("@fixture/utils"),
+    });
+    expect(ui.peerDependencies).toEqual({ "@fixture/core": "^1.0.0" });
+  });
+
+  it("only publishes the filtered packages and their dependencies", async () => {
+    const dir = await copyFixture("pnpm-workspace");
+    const { exitCode, result } = await publish(dir, [
+      "--workspace",
+      "--packer",
+      "pnpm",
+      "--version",
+      "pnpm-filtered",
+      "--filter",
+      "@fixture/core",
+      "--with-deps",
+    ]);
+    expect(exitCode).toBe(0);
+    expect(result.packages.map(({ name }) => name).sort()).toEqual([
+      "@fixture/core",
+      "@fixture/utils",
+    ]);
+  });
+});
+
+describe("project config", () => {
+  it("only fails the commands using an invalid config", async () => {
+    const dir = await copyFixture("npm-workspace");
+    await writeFile(
+      join(dir, "preview-pkg.config.json"),
+      JSON.stringify({ packages: 5 })
+    );
+
+    const { exitCode, result } = await publish(dir, ["--version", "config"]);
+    expect(exitCode).toBe(1);
+    expect(result.error).toMatch(/^Invalid config in preview-pkg.config.json/);
+
+    const help = await x("node", [CLI, "--help"], {
+      nodeOptions: { cwd: dir },
+    });
+    expect(help.exitCode, help.stderr).toBe(0);
+  });
+});
+
+describe.skipIf(!available.npm)("dry runs", () => {
+  it("packs the rewritten package.json files without logging in", async () => {
+    const dir = await copyFixture("npm-workspace");
+    const { exitCode, result, output } = await publish(
+      dir,
+      [
+        "--workspace",
+        "--packer",
+        "npm",
+        "--version",
+        "npm-dry-run",
+        "--owner",
+        "bob",
+        "--dry-run",
+      ],
+      { PREVIEW_PKG_USERNAME: "" }
+    );
+
+    expect(exitCode, output).toBe(0);
+    expect(result.namespace).toBe("bob");
+    expect(result.packages.map(({ status }) => status)).toEqual([
+      "dry-run",
+      "dry-run",
+    ]);
+    expect(output).toContain(
+      `"@fixture/utils": "${server.url}/bob/@fixture/utils@npm-dry-run"`
+    );
+
+    // Nothing is written to the packages or uploaded
+    for (const name of ["utils", "core"]) {
+      const path = join("packages", name, "package.json");
+      expect(await readFile(join(dir, path), "utf-8")).toBe(
+        await readFile(join(FIXTURES, "npm-workspace", path), "utf-8")
+      );
+    }
+    expect(
+      (await storage.list({ prefix: "preview-pkg/bob/" })).objects
+    ).toEqual([]);
+  });
+});
+
+describe.skipIf(!available.npm)("installing previews", () => {
+  it("installs the published packages with npm", async () => {
+    const dir = await copyFixture("npm-workspace");
+    const { exitCode } = await publish(dir, [
+      "--workspace",
+      "--packer",
+      "npm",
+      "--version",
+      "npm-install",
+    ]);
+    expect(exitCode).toBe(0);
+
+    const project = await mkdtemp(join(tmpdir(), "preview-pkg-project-"));
+    directories.push(project);
+    const install = await x(
+      "npm",
+      [
+        "install",
+        `${server.url}/alice/@fixture/core@npm-install`,
+        "--no-audit",
+        "--no-fund",
+      ],
+      { nodeOptions: { cwd: project, env: { ...process.env, HOME: home } } }
+    );
+    expect(install.exitCode, install.stderr).toBe(0);
+
+    // The dependency on utils was installed from its preview too
+    const utils = JSON.parse(
+      await readFile(
+        join(project, "node_modules/@fixture/utils/package.json"),
+        "utf-8"
+      )
+    );
+    expect(utils).toMatchObject({ name: "@fixture/utils", version: "1.0.0" });
+  });
+});
@@ -0,0 +1,96 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+// Previews in use are recorded under the home directory
+const home = await mkdtemp(join(tmpdir(), "preview-pkg-home-"));
+process.env.HOME = home;
+const { loadUsedPreviews, unusePreviews, usePreviews } =
+  await import("../src/use");
+
+const original = {
+  name: "app",
+  dependencies: { utils: "^1.0.0" },
+};
+const previews = [
+  { name: "utils", url: "http://localhost/alice/utils@abc1234" },
+  { name: "core", url: "http://localhost/alice/core@abc1234" },
+];
+
+let project: string;
+const directories = [home];
+beforeEach(async () => {
+  project = await mkdtemp(join(tmpdir(), "preview-pkg-use-"));
+  directories.push(project);
+  await writeFile(join(project, "package.json"), JSON.stringify(original));
+  await usePreviews({
+    project,
+    root: project,
+    packageManager: "npm",
+    previews,
+  });
+});
+
+afterAll(async () => {
+  for (const dir of directories)
+    await rm(dir, { recursive: true, force: true });
+});
+
+const readManifest = async () =>
+  JSON.parse(await readFile(join(project, "package.json"), "utf-8"));
+const writeManifest = (json: unknown) =>
+  writeFile(join(project, "package.json"), JSON.stringify(json));
+
+describe("unusePreviews", () => {
+  it("restores every field changed by use", async () => {
+    const { reverted } = await unusePreviews(project, []);
+    expect(reverted.map(({ name }) => name)).toEqual(["utils", "core"]);
+    expect(await readManifest()).toEqual(original);
+    expect(await loadUsedPreviews(project)).toEqual([]);
+  });
+
+  it("keeps changes that were left alone for later", async () => {
+    const manifest = await readManifest();
+    manifest.overrides.utils = "^2.0.0";
+    await writeManifest(manifest);
+
+    const { reverted, modified } = await unusePreviews(project, []);
+    expect(reverted.map(({ name }) => name)).toEqual(["core"]);
+    expect(modified).toEqual([
+      {
+        name: "utils",
+        file: join(project, "package.json"),
+        field: "overrides.utils",
+      },
+    ]);
+    expect(await readManifest()).toEqual({
+      ...original,
+      overrides: { utils: "^2.0.0" },
+    });
+
+    // Once the field is back to the preview, it can be restored
+    await writeManifest({
+      ...original,
+      overrides: { utils: previews[0]!.url },
+    });
+    const retried = await unusePreviews(project, []);
+    expect(retried.reverted.map(({ name }) => name)).toEqual(["utils"]);
+    expect(await readManifest()).toEqual(original);
+    expect(await loadUsedPreviews(project)).toEqual([]);
+  });
+
+  it("keeps changes of files that can't be read", async () => {
+    await writeFile(join(project, "package.json"), "{");
+
+    const { reverted, unreadable } = await unusePreviews(project, ["core"]);
+    expect(reverted).toEqual([]);
+    expect(unreadable).toEqual([
+      { name: "core", file: join(project, "package.json") },
+    ]);
+    expect((await loadUsedPreviews(project)).map(({ name }) => name)).toEqual([
+      "utils",
+      "core",
+    ]);
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Integration tests run the built CLI
+    globalSetup: ["test/build.ts"],
+    // Packing and installing take a while
+    testTimeout: 60_000,
+    hookTimeout: 60_000,
+  },
+});
@@ -18,6 +18,8 @@ export const worker = await Worker("worker", {
   entrypoint: "./src/app.ts",
   compatibility: "node",
   domains: ["pkg.rx2.dev"],
+  // Sweeps expired previews
+  crons: ["0 * * * *"],
   bindings: {
     STORAGE: storageBucket,
   },
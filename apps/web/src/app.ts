@@ -1,14 +1,78 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { createMiddleware } from "hono/factory";
 import type { worker } from "../alchemy.run";
 import { vValidator } from "@hono/valibot-validator";
 import * as v from "valibot";
-import { Octokit } from "octokit";
+import {
+  buildPackument,
+  inspectTarball,
+  type PackageMetadata,
+  listAllObjects,
+  loadPackageMetadata,
+  loadVersionsMetadata,
+  updatePackageIndex,
+} from "./registry";
+import {
+  isPrivate,
+  metadataKey,
+  packageSha256,
+  parseStorageKey,
+  provenanceKey,
+  storageKey,
+  uploadKey,
+  type StorageKeyArgs,
+} from "./keys";
+import {
+  Duration,
+  isExpired,
+  packageExpiry,
+  resolveExpiry,
+  sweepExpiredPackages,
+} from "./retention";
+import { getSettings, saveSettings, Settings } from "./settings";
+import { createReadToken, listReadTokens, revokeReadToken } from "./tokens";
+import { deleteTags, listTags, resolveTag, setTag } from "./tags";
+import { errorPage, userPage, versionPage, type VersionSummary } from "./pages";
+import { inspectContents, listTarballFiles, walkTarball } from "./tarball";
+import { contentType } from "./content-type";
+import {
+  provenanceMetadata,
+  ProvenanceOptions,
+  readProvenance,
+  type StoredProvenance,
+} from "./provenance";
+import {
+  authenticate,
+  canReadPrivate,
+  lacksOrganizationScope,
+  namespaceRole,
+  type Identity,
+  type NamespaceRole,
+} from "./auth";
+import {
+  ChecksumMismatchError,
+  sha256Hex,
+  type Storage,
+  type StorageObject,
+} from "./storage";
+import { R2Storage } from "./r2-storage";
 
 export type HonoCtx = {
-  Bindings: typeof worker.Env;
+  Bindings: {
+    // `R2Storage` on Cloudflare, see `startServer` for running elsewhere
+    STORAGE: Storage;
+    // "none" lets every request publish and read private packages, only for
+    // servers that can't be reached from outside
+    AUTH?: "github" | "none";
+  };
+  Variables: {
+    identity: Identity;
+    role: NamespaceRole;
+    settings: Settings;
+  };
 };
 
-const app = new Hono<HonoCtx>();
+export const app = new Hono<HonoCtx>();
 
 app.get("/", (c) => c.redirect("https://github.com/BlankParticle/preview-pkg"));
 
@@ -21,7 +85,7 @@ const GithubUsername = v.pipe(
   v.maxLength(39),
   MixedCaseAlphaNumericWithDashRegex
 );
-const PackageInfo = v.object({
+const PackageName = v.object({
   org: v.optional(
     v.pipe(
       v.string(),
@@ -36,6 +100,9 @@ const PackageInfo = v.object({
     v.maxLength(32),
     LowercaseAlphaNumericWithDashRegex
   ),
+});
+const PackageInfo = v.object({
+  ...PackageName.entries,
   version: v.pipe(
     v.string(),
     v.nonEmpty(),
@@ -64,19 +131,83 @@ const PackageParams = v.object({
   ),
 });
 
-type StorageKeyArgs = {
-  username: string;
-  org?: string;
-  packageName: string;
-  version: string;
-};
+const RegistryParams = v.object({
+  // Github username
+  username: GithubUsername,
+  // Package in format package-name or @org/package-name
+  name: v.pipe(
+    v.string(),
+    v.transform((str) => {
+      if (str.startsWith("@")) {
+        const [org, packageName] = str.split("/");
+        return { org: org?.slice(1), packageName };
+      } else {
+        return { packageName: str };
+      }
+    }),
+    PackageName
+  ),
+});
 
-const storageKey = (args: StorageKeyArgs) => {
-  const { username, org, packageName, version } = args;
-  return `preview-pkg/${username}/${
-    org ? `@${org}__${packageName}` : packageName
-  }@${version}`;
-};
+// Only lets identities that can publish to the `:username` namespace through, which is
+// either a user or an organization
+const authorizeNamespace = createMiddleware<HonoCtx>(async (c, next) => {
+  const username = c.req.param("username")!;
+  if (c.env.AUTH === "none") {
+    c.set("identity", {
+      login: username,
+      repository: null,
+      octokit: null,
+      scopes: null,
+    });
+    c.set("role", "owner");
+    c.set("settings", await getSettings(c.env.STORAGE, username));
+    return next();
+  }
+
+  const authorization = c.req.header("Authorization");
+  if (!authorization)
+    return c.json({ error: "Unauthorized: Missing GitHub token" }, 401);
+
+  const identity = await authenticate(authorization);
+  if (!identity)
+    return c.json({ error: "Unauthorized: Invalid GitHub token" }, 401);
+
+  const settings = await getSettings(c.env.STORAGE, username);
+  const role = await namespaceRole(identity, username, settings.publishTeam);
+  if (!role && lacksOrganizationScope(identity)) {
+    return c.json(
+      {
+        error: `Unauthorized: Your GitHub token doesn't have the read:org scope needed to publish to ${username}, log in again with \`preview-pkg login\` to grant it`,
+      },
+      401
+    );
+  }
+  if (!role) {
+    return c.json(
+      {
+        error: `Unauthorized: You are trying to manage packages of ${username} but you are logged in as ${
+          identity.repository ?? identity.login
+        }${
+          settings.publishTeam
+            ? `, only members of the ${settings.publishTeam} team can publish`
+            : ""
+        }`,
+      },
+      401
+    );
+  }
+
+  c.set("identity", identity);
+  c.set("role", role);
+  c.set("settings", settings);
+  await next();
+});
+
+// Whether the request can download the private packages of `username`
+const canReadPrivatePackages = async (c: Context<HonoCtx>, username: string) =>
+  c.env.AUTH === "none" ||
+  canReadPrivate(c.env.STORAGE, username, c.req.header("Authorization"));
 
 const validatePackageParams = vValidator(
   "param",
@@ -93,19 +224,1072 @@ const validatePackageParams = vValidator(
   }
 );
 
-app.get("/:username/:package{.+}", validatePackageParams, async (c) => {
+const validateRegistryParams = vValidator(
+  "param",
+  RegistryParams,
+  (result, c) => {
+    if (!result.success)
+      return c.json(
+        {
+          error: "Invalid package format",
+          issues: v.flatten(result.issues),
+        },
+        400
+      );
+  }
+);
+
+// npm compatible packument, use `https://<host>/<username>/registry/` as the registry URL
+app.get("/:username/registry/:name{.+}", validateRegistryParams, async (c) => {
   const {
     username,
-    package: { org, packageName, version },
+    name: { org, packageName },
   } = c.req.valid("param");
+  const name = org ? `@${org}/${packageName}` : packageName;
+
+  const prefix = storageKey({ username, org, packageName, version: "" });
+  const published = (await listAllObjects(c.env.STORAGE, prefix)).filter(
+    (object) => !isExpired(object)
+  );
+
+  // Private versions are only listed to those who can download them
+  const hasPrivate = published.some(isPrivate);
+  const canRead = hasPrivate && (await canReadPrivatePackages(c, username));
+  const objects = published.filter((object) => canRead || !isPrivate(object));
+  if (objects.length === 0) return c.json({ error: "Package not found" }, 404);
+  if (hasPrivate) c.header("Cache-Control", "private");
+
+  const origin = new URL(c.req.url).origin;
+  const metadata = await loadVersionsMetadata(
+    c.env.STORAGE,
+    { username, org, packageName },
+    objects.map((object) => object.key.slice(prefix.length))
+  );
+  const versions = objects.flatMap((object) => {
+    const version = object.key.slice(prefix.length);
+    const versionMetadata = metadata.get(version);
+    if (!versionMetadata) return [];
+    return {
+      version,
+      uploaded: object.uploaded,
+      tarballUrl: `${origin}/${username}/${name}@${version}`,
+      metadata: versionMetadata,
+    };
+  });
+
+  return c.json(
+    buildPackument(
+      name,
+      versions,
+      await listTags(c.env.STORAGE, { username, org, packageName })
+    )
+  );
+});
+
+app.get(
+  "/:username/-/packages",
+  vValidator("param", v.object({ username: GithubUsername })),
+  vValidator("query", v.object({ name: v.optional(v.string()) })),
+  authorizeNamespace,
+  async (c) => {
+    const { username } = c.req.valid("param");
+    const { name } = c.req.valid("query");
+
+    const origin = new URL(c.req.url).origin;
+    const objects = await listAllObjects(
+      c.env.STORAGE,
+      `preview-pkg/${username}/`
+    );
+
+    const packages = objects.flatMap((object) => {
+      const parsed = parseStorageKey(object.key);
+      if (!parsed) return [];
+      const { org, packageName, version } = parsed;
+      const fullName = org ? `@${org}/${packageName}` : packageName;
+      if (name && name !== fullName) return [];
+      return {
+        name: fullName,
+        version,
+        url: `${origin}/${username}/${fullName}@${version}`,
+        size: object.size,
+        sha256: packageSha256(object),
+        uploaded: object.uploaded.toISOString(),
+        expires: packageExpiry(object)?.toISOString() ?? null,
+        publishedBy: object.customMetadata?.publishedBy ?? null,
+        private: isPrivate(object),
+      };
+    });
+
+    return c.json({ packages });
+  }
+);
+
+app.get(
+  "/:username/-/settings",
+  vValidator("param", v.object({ username: GithubUsername })),
+  authorizeNamespace,
+  async (c) => {
+    const { username } = c.req.valid("param");
+    return c.json(c.var.settings);
+  }
+);
+
+app.put(
+  "/:username/-/settings",
+  vValidator("param", v.object({ username: GithubUsername })),
+  vValidator("json", Settings, (result, c) => {
+    if (!result.success)
+      return c.json(
+        {
+          error: "Invalid settings",
+          issues: v.flatten(result.issues),
+        },
+        400
+      );
+  }),
+  authorizeNamespace,
+  async (c) => {
+    const { username } = c.req.valid("param");
+    if (c.var.role === "member")
+      return c.json(
+        { error: `Only admins of ${username} can change its settings` },
+        403
+      );
+
+    const settings = { ...c.var.settings, ...c.req.valid("json") };
+    await saveSettings(c.env.STORAGE, username, settings);
+    return c.json(settings);
+  }
+);
+
+app.get(
+  "/:username/-/tokens",
+  vValidator("param", v.object({ username: GithubUsername })),
+  authorizeNamespace,
+  async (c) => {
+    const { username } = c.req.valid("param");
+    return c.json({ tokens: await listReadTokens(c.env.STORAGE, username) });
+  }
+);
+
+app.post(
+  "/:username/-/tokens",
+  vValidator("param", v.object({ username: GithubUsername })),
+  vValidator(
+    "json",
+    v.object({ name: v.pipe(v.string(), v.nonEmpty(), v.maxLength(64)) }),
+    (result, c) => {
+      if (!result.success)
+        return c.json(
+          {
+            error: "Invalid token name",
+            issues: v.flatten(result.issues),
+          },
+          400
+        );
+    }
+  ),
+  authorizeNamespace,
+  async (c) => {
+    const { username } = c.req.valid("param");
+    const { name } = c.req.valid("json");
+    const identity = c.var.identity;
+    const token = await createReadToken(
+      c.env.STORAGE,
+      username,
+      name,
+      identity.repository ?? identity.login
+    );
+    return c.json(token, 201);
+  }
+);
+
+app.delete(
+  "/:username/-/tokens/:id",
+  vValidator(
+    "param",
+    v.object({
+      username: GithubUsername,
+      id: v.pipe(v.string(), v.regex(/^[a-f0-9]{16}$/)),
+    })
+  ),
+  authorizeNamespace,
+  async (c) => {
+    const { username, id } = c.req.valid("param");
+    if (!(await revokeReadToken(c.env.STORAGE, username, id)))
+      return c.json({ error: "Token not found" }, 404);
+    return c.json({ message: "Token revoked" }, 200);
+  }
+);
+
+app.get(
+  "/:username/-/packages/:package{.+}",
+  validatePackageParams,
+  authorizeNamespace,
+  async (c) => {
+    const {
+      username,
+      package: { org, packageName, version },
+    } = c.req.valid("param");
+    const name = org ? `@${org}/${packageName}` : packageName;
+
+    const packageKey = storageKey({ username, org, packageName, version });
+    const packageInfo = await c.env.STORAGE.head(packageKey);
+    if (!packageInfo) return c.json({ error: "Package not found" }, 404);
+
+    const metadata = await loadPackageMetadata(
+      c.env.STORAGE,
+      packageKey,
+      metadataKey({ username, org, packageName, version })
+    );
+
+    return c.json({
+      name,
+      version,
+      url: `${new URL(c.req.url).origin}/${username}/${name}@${version}`,
+      size: packageInfo.size,
+      sha256: packageSha256(packageInfo),
+      uploaded: packageInfo.uploaded.toISOString(),
+      expires: packageExpiry(packageInfo)?.toISOString() ?? null,
+      publishedBy: packageInfo.customMetadata?.publishedBy ?? null,
+      private: isPrivate(packageInfo),
+      manifest: metadata?.manifest ?? null,
+    });
+  }
+);
+
+app.get("/:username/-/tags/:name{.+}", validateRegistryParams, async (c) => {
+  const {
+    username,
+    name: { org, packageName },
+  } = c.req.valid("param");
+  const args = { username, org, packageName };
+  const tags = await listTags(c.env.STORAGE, args);
+
+  // Tags of private versions are only listed to those who can download them
+  const prefix = storageKey({ ...args, version: "" });
+  const privateVersions = new Set(
+    (await listAllObjects(c.env.STORAGE, prefix))
+      .filter(isPrivate)
+      .map((object) => object.key.slice(prefix.length))
+  );
+  const privateTags = Object.keys(tags).filter((tag) =>
+    privateVersions.has(tags[tag]!)
+  );
+  if (privateTags.length > 0) {
+    c.header("Cache-Control", "private");
+    if (!(await canReadPrivatePackages(c, username)))
+      for (const tag of privateTags) delete tags[tag];
+  }
+
+  return c.json({ tags });
+});
+
+app.put(
+  "/:username/-/tags/:package{.+}",
+  validatePackageParams,
+  vValidator(
+    "json",
+    v.object({ version: PackageInfo.entries.version }),
+    (result, c) => {
+      if (!result.success)
+        return c.json(
+          {
+            error: "Invalid tag",
+            issues: v.flatten(result.issues),
+          },
+          400
+        );
+    }
+  ),
+  authorizeNamespace,
+  async (c) => {
+    const {
+      username,
+      package: { org, packageName, version: tag },
+    } = c.req.valid("param");
+    const { version } = c.req.valid("json");
+
+    const packageInfo = await c.env.STORAGE.head(
+      storageKey({ username, org, packageName, version })
+    );
+    if (!packageInfo || isExpired(packageInfo))
+      return c.json({ error: "Package not found" }, 404);
+
+    await setTag(c.env.STORAGE, { username, org, packageName }, tag, version);
+    return c.json({ message: "Tag updated" }, 200);
+  }
+);
+
+app.delete(
+  "/:username/-/tags/:package{.+}",
+  validatePackageParams,
+  authorizeNamespace,
+  async (c) => {
+    const {
+      username,
+      package: { org, packageName, version: tag },
+    } = c.req.valid("param");
+
+    const args = { username, org, packageName };
+    if (!(await resolveTag(c.env.STORAGE, args, tag)))
+      return c.json({ error: "Tag not found" }, 404);
+
+    await deleteTags(c.env.STORAGE, args, [tag]);
+    return c.json({ message: "Tag deleted" }, 200);
+  }
+);
+
+const MAX_FORM_UPLOAD_SIZE = 1024 * 1024 * 10;
+// Previews rarely need to be larger, and each one is kept until it expires
+const MAX_PACKAGE_SIZE = 1024 * 1024 * 256;
+// R2 requires every part except the last one to be at least 5MiB, parts are
+// buffered to be verified and a Worker only has 128MB of memory
+const MAX_PART_SIZE = 1024 * 1024 * 16;
+
+const PublishOptions = v.object({
+  sha256: v.pipe(v.string(), v.length(64)),
+  ttl: v.optional(Duration),
+  private: v.optional(v.picklist(["true", "false"])),
+  ...ProvenanceOptions,
+});
+
+const formatPackage = ({ org, packageName, version }: StorageKeyArgs) =>
+  `${org ? `@${org}/` : ""}${packageName}@${version}`;
+
+// Checksum of the live package stored at `packageKey`, null if publishing there is allowed
+const publishedSha256 = async (storage: Storage, packageKey: string) => {
+  const existingPackage = await storage.head(packageKey);
+  return existingPackage && !isExpired(existingPackage)
+    ? packageSha256(existingPackage)
+    : null;
+};
+
+type ReadProvenance = Exclude<
+  Awaited<ReturnType<typeof readProvenance>>,
+  { error: string }
+>;
+
+// Validates the provenance of a package being published, see `readProvenance`
+const checkProvenance = (
+  args: StorageKeyArgs,
+  options: v.InferOutput<typeof PublishOptions>
+) =>
+  readProvenance(options, {
+    name: `${args.org ? `@${args.org}/` : ""}${args.packageName}`,
+    version: args.version,
+    sha256: options.sha256,
+  });
+
+// Written before the tarball, so a published package never misses it. Stale
+// provenance of an earlier failed upload is removed.
+const saveProvenance = (
+  storage: Storage,
+  args: StorageKeyArgs,
+  provenance: Pick<NonNullable<ReadProvenance>, "stored"> | null
+) =>
+  provenance
+    ? storage.put(provenanceKey(args), JSON.stringify(provenance.stored), {
+        contentType: "application/json",
+      })
+    : storage.delete(provenanceKey(args));
+
+// Metadata stored on every tarball, no matter how it was uploaded
+const publishMetadata = (
+  { identity, settings }: HonoCtx["Variables"],
+  { org, packageName, version }: StorageKeyArgs,
+  options: v.InferOutput<typeof PublishOptions>,
+  provenance: ReadProvenance
+) => {
+  const expiry = resolveExpiry(options.ttl, settings.defaultTtl);
+  return {
+    expiry,
+    customMetadata: {
+      org: org ?? "",
+      packageName,
+      version,
+      sha256: options.sha256,
+      publishedBy: identity.repository ?? identity.login,
+      ...(options.private === "true" ? { private: "true" } : {}),
+      ...(expiry ? { expiresAt: expiry.toISOString() } : {}),
+      ...(provenance ? provenanceMetadata(provenance) : {}),
+    },
+  };
+};
+
+// Not fatal, the registry computes missing metadata when it's first requested
+const saveMetadata = async (
+  storage: Storage,
+  { version, ...args }: StorageKeyArgs,
+  metadata: PackageMetadata
+) => {
+  await storage
+    .put(metadataKey({ ...args, version }), JSON.stringify(metadata), {
+      contentType: "application/json",
+    })
+    .catch(() => {});
+  await updatePackageIndex(storage, args, { [version]: metadata }).catch(
+    () => {}
+  );
+};
+
+const validateUploadId = vValidator(
+  "query",
+  v.object({ uploadId: v.optional(v.pipe(v.string(), v.nonEmpty())) }),
+  (result, c) => {
+    if (!result.success)
+      return c.json(
+        { error: "Invalid upload", issues: v.flatten(result.issues) },
+        400
+      );
+  }
+);
+
+const CreateUpload = v.object({
+  ...PublishOptions.entries,
+  size: v.pipe(
+    v.number(),
+    v.integer(),
+    v.minValue(1),
+    v.maxValue(MAX_PACKAGE_SIZE, "Maximum package size is 256MB")
+  ),
+  // SHA-256 checksums of the parts in order
+  parts: v.pipe(
+    v.array(v.pipe(v.string(), v.length(64))),
+    v.nonEmpty(),
+    v.maxLength(10000)
+  ),
+});
+
+// Stored at `uploadKey` until the upload is completed or aborted, provenance
+// is only saved once the package is complete
+type UploadState = {
+  size: number;
+  sha256: string;
+  parts: string[];
+  provenance: StoredProvenance | null;
+};
+
+const loadUploadState = async (
+  storage: Storage,
+  args: StorageKeyArgs,
+  uploadId: string
+) => {
+  const stored = await storage.get(uploadKey(args, uploadId));
+  return stored ? stored.json<UploadState>() : null;
+};
+
+// Uploads that don't exist anymore are fine, aborting is best effort
+const abortUpload = async (
+  storage: Storage,
+  args: StorageKeyArgs,
+  uploadId: string
+) => {
+  await storage
+    .resumeMultipartUpload(storageKey(args), uploadId)
+    .abort()
+    .catch(() => {});
+  await storage.delete(uploadKey(args, uploadId));
+};
+
+const UploadParts = v.object({
+  parts: v.pipe(
+    v.array(
+      v.object({
+        partNumber: v.pipe(v.number(), v.integer(), v.minValue(1)),
+        etag: v.pipe(v.string(), v.nonEmpty()),
+      })
+    ),
+    v.nonEmpty()
+  ),
+});
+
+/**
+ * Packages larger than 10MB are uploaded in parts, following the S3 multipart
+ * flow. `POST` without an `uploadId` starts an upload, the parts are sent with
+ * `PUT ?uploadId=&partNumber=` and `POST ?uploadId=` completes the upload.
+ *
+ * The checksum of every part is sent when the upload starts and each part is
+ * verified as it's uploaded. Once completed, the package is streamed back once
+ * to verify its size and checksum and to read its package.json, packages that
+ * don't match are deleted.
+ */
+app.post(
+  "/:username/-/uploads/:package{.+}",
+  validatePackageParams,
+  validateUploadId,
+  authorizeNamespace,
+  async (c) => {
+    const { username, package: packageInfo } = c.req.valid("param");
+    const { uploadId } = c.req.valid("query");
+    const args = { username, ...packageInfo };
+    const packageKey = storageKey(args);
+
+    const body = v.safeParse(
+      uploadId ? UploadParts : CreateUpload,
+      await c.req.json().catch(() => null)
+    );
+    if (!body.success)
+      return c.json(
+        { error: "Invalid upload", issues: v.flatten(body.issues) },
+        400
+      );
+
+    const existingSha256 = await publishedSha256(c.env.STORAGE, packageKey);
+    if (existingSha256) {
+      if (uploadId) await abortUpload(c.env.STORAGE, args, uploadId);
+      return c.json(
+        {
+          error: `Package ${formatPackage(args)} already exists`,
+          sha256: existingSha256,
+        },
+        409
+      );
+    }
+
+    if ("sha256" in body.output) {
+      const { size, sha256, parts } = body.output;
+      if (size > parts.length * MAX_PART_SIZE)
+        return c.json({ error: "Maximum part size is 16MB" }, 400);
+
+      const provenance = await checkProvenance(args, body.output);
+      if (provenance && "error" in provenance)
+        return c.json({ error: provenance.error }, 400);
+
+      const { customMetadata } = publishMetadata(
+        c.var,
+        args,
+        body.output,
+        provenance
+      );
+      const upload = await c.env.STORAGE.createMultipartUpload(packageKey, {
+        customMetadata,
+      });
+      await c.env.STORAGE.put(
+        uploadKey(args, upload.uploadId),
+        JSON.stringify({
+          size,
+          sha256,
+          parts,
+          provenance: provenance?.stored ?? null,
+        } satisfies UploadState),
+        { contentType: "application/json" }
+      );
+      return c.json(
+        { uploadId: upload.uploadId, maxPartSize: MAX_PART_SIZE },
+        201
+      );
+    }
+
+    const upload = await loadUploadState(c.env.STORAGE, args, uploadId!);
+    if (!upload) return c.json({ error: "Upload not found" }, 404);
+
+    // Only verified parts are stored, so all of them have to be there
+    const { parts } = body.output;
+    if (
+      parts.length !== upload.parts.length ||
+      parts.some((part, i) => part.partNumber !== i + 1)
+    )
+      return c.json(
+        {
+          error: `Upload must be completed with all ${upload.parts.length} parts in order`,
+        },
+        400
+      );
+
+    // Written before the package is complete, like for single requests
+    await saveProvenance(
+      c.env.STORAGE,
+      args,
+      upload.provenance && { stored: upload.provenance }
+    );
+    const completed = await c.env.STORAGE.resumeMultipartUpload(
+      packageKey,
+      uploadId!
+    )
+      .complete(parts)
+      .catch(() => null);
+    if (!completed) {
+      await c.env.STORAGE.delete(provenanceKey(args));
+      return c.json({ error: "Failed to complete upload" }, 400);
+    }
+    await c.env.STORAGE.delete(uploadKey(args, uploadId!));
+
+    // Verified parts only prove they match the checksums the client sent,
+    // the package is streamed back so it's never buffered
+    const stored =
+      completed.size === upload.size
+        ? await c.env.STORAGE.get(packageKey)
+        : null;
+    const inspected = stored
+      ? await inspectTarball(stored.body).catch(() => null)
+      : null;
+    const error =
+      completed.size !== upload.size
+        ? `Package must be ${upload.size} bytes as announced`
+        : inspected?.sha256 !== upload.sha256
+          ? "Invalid SHA-256 checksum"
+          : !inspected.metadata.manifest.name
+            ? "Package must be a gzipped tarball with a package.json"
+            : null;
+    if (error || !inspected) {
+      await c.env.STORAGE.delete([packageKey, provenanceKey(args)]);
+      return c.json({ error }, 400);
+    }
+
+    await saveMetadata(c.env.STORAGE, args, inspected.metadata);
+
+    return c.json(
+      {
+        message: "Package created",
+        expires: packageExpiry(completed)?.toISOString() ?? null,
+      },
+      201
+    );
+  }
+);
+
+app.put(
+  "/:username/-/uploads/:package{.+}",
+  validatePackageParams,
+  vValidator(
+    "query",
+    v.object({
+      uploadId: v.pipe(v.string(), v.nonEmpty()),
+      partNumber: v.pipe(
+        v.string(),
+        v.regex(/^\d+$/),
+        v.transform(Number),
+        v.minValue(1),
+        v.maxValue(10000)
+      ),
+    }),
+    (result, c) => {
+      if (!result.success)
+        return c.json(
+          { error: "Invalid upload", issues: v.flatten(result.issues) },
+          400
+        );
+    }
+  ),
+  authorizeNamespace,
+  async (c) => {
+    const { username, package: packageInfo } = c.req.valid("param");
+    const { uploadId, partNumber } = c.req.valid("query");
+    const args = { username, ...packageInfo };
+
+    const size = Number(c.req.header("Content-Length"));
+    if (!size || size > MAX_PART_SIZE)
+      return c.json({ error: "Maximum part size is 16MB" }, 400);
+
+    const upload = await loadUploadState(c.env.STORAGE, args, uploadId);
+    if (!upload) return c.json({ error: "Upload not found" }, 404);
+    const sha256 = upload.parts[partNumber - 1];
+    if (!sha256)
+      return c.json(
+        { error: `Upload only has ${upload.parts.length} parts` },
+        400
+      );
+
+    const value = await c.req.arrayBuffer();
+    if (sha256Hex(new Uint8Array(value)) !== sha256)
+      return c.json(
+        { error: `Invalid SHA-256 checksum of part ${partNumber}` },
+        400
+      );
+
+    const part = await c.env.STORAGE.resumeMultipartUpload(
+      storageKey(args),
+      uploadId
+    )
+      .uploadPart(partNumber, value)
+      .catch(() => null);
+    if (!part) return c.json({ error: "Upload not found" }, 404);
+
+    return c.json(part, 200);
+  }
+);
+
+app.delete(
+  "/:username/-/uploads/:package{.+}",
+  validatePackageParams,
+  validateUploadId,
+  authorizeNamespace,
+  async (c) => {
+    const { username, package: packageInfo } = c.req.valid("param");
+    const { uploadId } = c.req.valid("query");
+    if (!uploadId) return c.json({ error: "Missing upload ID" }, 400);
+
+    await abortUpload(c.env.STORAGE, { username, ...packageInfo }, uploadId);
+    return c.json({ message: "Upload aborted" }, 200);
+  }
+);
+
+/**
+ * Finds a live version of a package, `version` can also be a tag. Private
+ * packages are only found if the request can read them.
+ */
+async function findReadablePackage(
+  c: Context<HonoCtx>,
+  args: StorageKeyArgs
+): Promise<
+  | { version: string; packageKey: string; packageInfo: StorageObject }
+  | { error: string; status: 401 | 404 }
+> {
+  const { username, org, packageName } = args;
+  let { version } = args;
+
+  let packageInfo = await c.env.STORAGE.head(
+    storageKey({ username, org, packageName, version })
+  );
+  if (!packageInfo) {
+    // Versions take precedence, otherwise try resolving a tag with that name
+    const taggedVersion = await resolveTag(
+      c.env.STORAGE,
+      { username, org, packageName },
+      version
+    );
+    if (taggedVersion) {
+      version = taggedVersion;
+      packageInfo = await c.env.STORAGE.head(
+        storageKey({ username, org, packageName, version })
+      );
+    }
+  }
+  if (!packageInfo) return { error: "Package not found", status: 404 };
+
+  // Expired packages are deleted by the scheduled sweep, until then treat them as gone
+  if (isExpired(packageInfo)) return { error: "Package expired", status: 404 };
+
+  if (isPrivate(packageInfo)) {
+    if (!(await canReadPrivatePackages(c, username)))
+      return { error: "Unauthorized: Package is private", status: 401 };
+    c.header("Cache-Control", "private");
+  }
 
   const packageKey = storageKey({ username, org, packageName, version });
-  const packageInfo = await c.env.STORAGE.head(packageKey);
-  if (!packageInfo) return c.json({ error: "Package not found" }, 404);
+  return { version, packageKey, packageInfo };
+}
+
+// Browsers ask for HTML, package managers never do
+const wantsHtml = (c: Context<HonoCtx>) =>
+  !!c.req.header("Accept")?.includes("text/html") &&
+  c.req.query("download") === undefined;
+
+// Summary of the provenance, the full record is at /:username/-/provenance/
+const setProvenanceHeaders = (c: Context<HonoCtx>, object: StorageObject) => {
+  const { commit, dirty, signedBy } = object.customMetadata ?? {};
+  if (commit) c.header("X-Preview-Commit", commit);
+  if (dirty) c.header("X-Preview-Dirty", "true");
+  if (signedBy) c.header("X-Preview-Signed-By", signedBy);
+};
+
+// The file list of huge packages is cut off, the page would be unusable anyway
+const MAX_LISTED_FILES = 1000;
+
+app.get(
+  "/:username",
+  vValidator("param", v.object({ username: GithubUsername })),
+  async (c) => {
+    const { username } = c.req.valid("param");
+    const origin = new URL(c.req.url).origin;
+
+    // Private packages can't be listed, browsers don't send read tokens
+    const objects = (
+      await listAllObjects(c.env.STORAGE, `preview-pkg/${username}/`)
+    ).filter((object) => !isExpired(object) && !isPrivate(object));
+
+    const grouped = new Map<
+      string,
+      { org?: string; packageName: string; versions: VersionSummary[] }
+    >();
+    for (const object of objects) {
+      const parsed = parseStorageKey(object.key);
+      if (!parsed) continue;
+      const { org, packageName, version } = parsed;
+      const name = org ? `@${org}/${packageName}` : packageName;
+      if (!grouped.has(name))
+        grouped.set(name, { org, packageName, versions: [] });
+      grouped.get(name)!.versions.push({
+        version,
+        url: `${origin}/${username}/${name}@${version}`,
+        size: object.size,
+        uploaded: object.uploaded,
+        expires: packageExpiry(object),
+        tags: [],
+      });
+    }
+
+    const packages = await Promise.all(
+      [...grouped]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(async ([name, { org, packageName, versions }]) => {
+          const packageTags = await listTags(c.env.STORAGE, {
+            username,
+            org,
+            packageName,
+          });
+          for (const version of versions) {
+            version.tags = Object.keys(packageTags).filter(
+              (tag) => packageTags[tag] === version.version
+            );
+          }
+          versions.sort((a, b) => b.uploaded.getTime() - a.uploaded.getTime());
+          return { name, versions };
+        })
+    );
+
+    return c.html(userPage(username, packages));
+  }
+);
+
+// Scoped packages are matched as two segments, a greedy param can't be
+// followed by the file path
+const FILE_ROUTES = [
+  "/:username/:scope{@[^/]+}/:package/-/files",
+  "/:username/:package/-/files",
+];
+const FileParams = v.pipe(
+  v.object({
+    username: v.string(),
+    scope: v.optional(v.string()),
+    package: v.string(),
+    path: v.optional(v.string()),
+  }),
+  v.transform(({ scope, ...params }) => ({
+    ...params,
+    package: scope ? `${scope}/${params.package}` : params.package,
+  })),
+  v.object({ ...PackageParams.entries, path: v.optional(v.string()) })
+);
+const validateFileParams = vValidator("param", FileParams, (result, c) => {
+  if (!result.success)
+    return c.json(
+      {
+        error: "Invalid package format",
+        issues: v.flatten(result.issues),
+      },
+      400
+    );
+});
+
+// Files are read into memory to be served, larger ones need the tarball
+const MAX_SERVED_FILE_SIZE = 1024 * 1024 * 32;
+
+for (const route of FILE_ROUTES) {
+  app.get(`${route}/:path{.+}`, validateFileParams, async (c) => {
+    const {
+      username,
+      package: { org, packageName, version },
+    } = c.req.valid("param");
+    // Leading slashes and `./` resolve to the same file inside the tarball
+    const path = c.req.valid("param").path!.replace(/^(\.?\/)+/, "");
+
+    const found = await findReadablePackage(c, {
+      username,
+      org,
+      packageName,
+      version,
+    });
+    if ("error" in found) return c.json({ error: found.error }, found.status);
+
+    const tarball = await c.env.STORAGE.get(found.packageKey);
+    if (!tarball) return c.json({ error: "Package not found" }, 404);
+
+    let file: { size: number; contents: Uint8Array | null } | null = null;
+    await walkTarball(tarball.body, async (entry, read) => {
+      if (entry.type !== "file" || entry.path !== path) return;
+      file = {
+        size: entry.size,
+        contents: entry.size <= MAX_SERVED_FILE_SIZE ? await read() : null,
+      };
+      return "stop";
+    });
+
+    const served = file as { size: number; contents: Uint8Array | null } | null;
+    if (!served) return c.json({ error: `File ${path} not found` }, 404);
+    if (!served.contents)
+      return c.json(
+        {
+          error: `File ${path} is larger than 32MB, download the tarball instead`,
+        },
+        413
+      );
+
+    c.header("Content-Type", contentType(path, served.contents));
+    c.header("X-Content-Type-Options", "nosniff");
+    c.header("X-Preview-Version", found.version);
+    setProvenanceHeaders(c, found.packageInfo);
+    // Lets browsers import modules straight from a preview
+    if (!isPrivate(found.packageInfo))
+      c.header("Access-Control-Allow-Origin", "*");
+    return c.body(served.contents as Uint8Array<ArrayBuffer>, 200);
+  });
+
+  app.get(route, validateFileParams, async (c) => {
+    const {
+      username,
+      package: { org, packageName, version },
+    } = c.req.valid("param");
+
+    const found = await findReadablePackage(c, {
+      username,
+      org,
+      packageName,
+      version,
+    });
+    if ("error" in found) return c.json({ error: found.error }, found.status);
+
+    const tarball = await c.env.STORAGE.get(found.packageKey);
+    if (!tarball) return c.json({ error: "Package not found" }, 404);
+
+    const name = org ? `@${org}/${packageName}` : packageName;
+    const baseUrl = `${new URL(c.req.url).origin}/${username}/${name}@${found.version}/-/files`;
+    const files = await listTarballFiles(tarball.body);
+
+    if (!isPrivate(found.packageInfo))
+      c.header("Access-Control-Allow-Origin", "*");
+    return c.json({
+      name,
+      version: found.version,
+      files: files.map((file) => ({
+        path: file.path,
+        size: file.size,
+        url: `${baseUrl}/${file.path}`,
+      })),
+    });
+  });
+}
+
+app.get(
+  "/:username/-/provenance/:package{.+}",
+  validatePackageParams,
+  async (c) => {
+    const {
+      username,
+      package: { org, packageName, version },
+    } = c.req.valid("param");
+    const name = org ? `@${org}/${packageName}` : packageName;
+
+    const found = await findReadablePackage(c, {
+      username,
+      org,
+      packageName,
+      version,
+    });
+    if ("error" in found) return c.json({ error: found.error }, found.status);
+
+    const stored = await c.env.STORAGE.get(
+      provenanceKey({ username, org, packageName, version: found.version })
+    );
+    if (!stored)
+      return c.json(
+        { error: `No provenance was recorded for ${name}@${found.version}` },
+        404
+      );
+    const { payload, signature } = await stored.json<StoredProvenance>();
+
+    return c.json({
+      name,
+      version: found.version,
+      sha256: packageSha256(found.packageInfo),
+      provenance: JSON.parse(payload),
+      // The payload is the exact signed string, verify it instead of `provenance`
+      attestation: signature ? { ...signature, payload } : null,
+    });
+  }
+);
+
+app.get("/:username/:package{.+}", validatePackageParams, async (c) => {
+  const {
+    username,
+    package: { org, packageName },
+  } = c.req.valid("param");
+  let { version } = c.req.valid("param").package;
+  // The same URL is a tarball or a page depending on who asks
+  c.header("Vary", "Accept");
+
+  const found = await findReadablePackage(c, {
+    username,
+    org,
+    packageName,
+    version,
+  });
+  if ("error" in found) {
+    if (found.status === 401 && wantsHtml(c))
+      return c.html(
+        errorPage(
+          "Private package",
+          "This package is private, install it with a read token to see its contents."
+        ),
+        401
+      );
+    return c.json({ error: found.error }, found.status);
+  }
+  const { packageInfo, packageKey } = found;
+  version = found.version;
+
+  if (wantsHtml(c)) {
+    const name = org ? `@${org}/${packageName}` : packageName;
+    const [metadata, tarball, packageTags, provenance] = await Promise.all([
+      loadPackageMetadata(
+        c.env.STORAGE,
+        packageKey,
+        metadataKey({ username, org, packageName, version })
+      ),
+      c.env.STORAGE.get(packageKey),
+      listTags(c.env.STORAGE, { username, org, packageName }),
+      c.env.STORAGE.head(
+        provenanceKey({ username, org, packageName, version })
+      ),
+    ]);
+    if (!tarball)
+      return c.html(
+        errorPage("Package not found", `${name}@${version} doesn't exist.`),
+        404
+      );
+    const contents = await inspectContents(tarball.body, MAX_LISTED_FILES);
+
+    const requestUrl = new URL(c.req.url);
+    return c.html(
+      versionPage({
+        username,
+        name,
+        version,
+        // Keeps the tag in install commands when the page was opened through one
+        url: `${requestUrl.origin}${requestUrl.pathname}`,
+        size: packageInfo.size,
+        sha256: packageSha256(packageInfo),
+        uploaded: packageInfo.uploaded,
+        expires: packageExpiry(packageInfo),
+        publishedBy: packageInfo.customMetadata?.publishedBy ?? null,
+        private: isPrivate(packageInfo),
+        commit: packageInfo.customMetadata?.commit ?? null,
+        dirty: packageInfo.customMetadata?.dirty === "true",
+        signedBy: packageInfo.customMetadata?.signedBy ?? null,
+        provenanceUrl: provenance
+          ? `${requestUrl.origin}/${username}/-/provenance/${name}@${version}`
+          : null,
+        tags: Object.keys(packageTags).filter(
+          (tag) => packageTags[tag] === version
+        ),
+        manifest: metadata?.manifest ?? {},
+        ...contents,
+      })
+    );
+  }
 
   const packageBody = await c.env.STORAGE.get(packageKey);
   if (!packageBody) return c.json({ error: "Package not found" }, 404);
   c.header("Content-Type", "application/tar+gzip");
+  c.header("X-Preview-Version", version);
+  setProvenanceHeaders(c, packageInfo);
+
+  const expiry = packageExpiry(packageInfo);
+  if (expiry) {
+    c.header("Expires", expiry.toUTCString());
+    c.header("X-Preview-Expires", expiry.toISOString());
+  }
 
   return c.body(packageBody.body, 200);
 });
@@ -118,9 +1302,12 @@ app.post(
     v.object({
       tarball: v.pipe(
         v.file(),
-        v.maxSize(1024 * 1024 * 10, `Maximum package size is 10MB`)
+        v.maxSize(
+          MAX_FORM_UPLOAD_SIZE,
+          "Maximum package size is 10MB, upload larger packages in parts"
+        )
       ),
-      sha256: v.pipe(v.string(), v.length(64)),
+      ...PublishOptions.entries,
     }),
     (result, c) => {
       if (!result.success)
@@ -133,61 +1320,116 @@ app.post(
         );
     }
   ),
-  vValidator("header", v.object({ authorization: v.string() })),
+  authorizeNamespace,
   async (c) => {
-    const {
-      username,
-      package: { org, packageName, version },
-    } = c.req.valid("param");
-    const { tarball, sha256 } = c.req.valid("form");
+    const { username, package: packageInfo } = c.req.valid("param");
+    const { tarball, ...options } = c.req.valid("form");
 
-    const octokit = new Octokit({ auth: c.req.header("Authorization") });
-    const authUser = await octokit.rest.users.getAuthenticated();
-
-    if (authUser.data.login !== username) {
+    const args = { username, ...packageInfo };
+    const packageKey = storageKey(args);
+    const existingSha256 = await publishedSha256(c.env.STORAGE, packageKey);
+    if (existingSha256)
       return c.json(
         {
-          error: `Unauthorized: You are trying to publish a package for ${username} but you are logged in as ${authUser.data.login}`,
+          error: `Package ${formatPackage(args)} already exists`,
+          sha256: existingSha256,
         },
-        401
+        409
       );
-    }
-
-    const packageKey = storageKey({ username, org, packageName, version });
-    const existingPackage = await c.env.STORAGE.head(packageKey);
 
-    if (existingPackage && existingPackage.checksums.sha256)
+    // Checked before anything is stored, so a broken upload leaves nothing behind
+    const inspected = await inspectTarball(tarball.stream()).catch(() => null);
+    if (!inspected?.metadata.manifest.name)
       return c.json(
-        {
-          error: `Package ${
-            org ? `@${org}/` : ""
-          }${packageName}@${version} already exists`,
-          sha256: Buffer.from(existingPackage.checksums.sha256).toString("hex"),
-        },
-        409
+        { error: "Package must be a gzipped tarball with a package.json" },
+        400
       );
 
+    const provenance = await checkProvenance(args, options);
+    if (provenance && "error" in provenance)
+      return c.json({ error: provenance.error }, 400);
+    await saveProvenance(c.env.STORAGE, args, provenance);
+
+    const { customMetadata, expiry } = publishMetadata(
+      c.var,
+      args,
+      options,
+      provenance
+    );
     const res = await c.env.STORAGE.put(
       packageKey,
       await tarball.arrayBuffer(),
       {
-        customMetadata: { org: org ?? "", packageName, version },
-        sha256,
+        customMetadata,
+        sha256: options.sha256,
       }
     ).catch((error) =>
       error instanceof Error ? error : new Error(String(error))
     );
 
     if (res instanceof Error) {
-      if (res.message.includes("SHA-256")) {
+      if (res instanceof ChecksumMismatchError) {
         return c.json({ error: "Invalid SHA-256 checksum" }, 400);
       } else {
         return c.json({ error: "Failed to upload package to storage" }, 500);
       }
     }
 
-    return c.json({ message: "Package created" }, 201);
+    await saveMetadata(c.env.STORAGE, args, inspected.metadata);
+
+    return c.json(
+      { message: "Package created", expires: expiry?.toISOString() ?? null },
+      201
+    );
   }
 );
 
-export default app;
+app.delete(
+  "/:username/:package{.+}",
+  validatePackageParams,
+  authorizeNamespace,
+  async (c) => {
+    const {
+      username,
+      package: { org, packageName, version },
+    } = c.req.valid("param");
+
+    const packageKey = storageKey({ username, org, packageName, version });
+    const existingPackage = await c.env.STORAGE.head(packageKey);
+    if (!existingPackage) return c.json({ error: "Package not found" }, 404);
+
+    await c.env.STORAGE.delete([
+      packageKey,
+      metadataKey({ username, org, packageName, version }),
+      provenanceKey({ username, org, packageName, version }),
+    ]);
+
+    await updatePackageIndex(
+      c.env.STORAGE,
+      { username, org, packageName },
+      { [version]: null }
+    );
+
+    // Don't leave tags pointing to a version that doesn't exist anymore
+    const tags = await listTags(c.env.STORAGE, { username, org, packageName });
+    await deleteTags(
+      c.env.STORAGE,
+      { username, org, packageName },
+      Object.keys(tags).filter((tag) => tags[tag] === version)
+    );
+
+    return c.json({ message: "Package deleted" }, 200);
+  }
+);
+
+// Routes only see the storage interface, never the R2 binding itself
+const bindings = (env: typeof worker.Env): HonoCtx["Bindings"] => ({
+  STORAGE: new R2Storage(env.STORAGE),
+});
+
+export default {
+  fetch: (request, env, ctx) => app.fetch(request, bindings(env), ctx),
+  async scheduled(_controller, env, ctx) {
+    ctx.waitUntil(sweepExpiredPackages(bindings(env).STORAGE));
+  },
+} satisfies ExportedHandler<typeof worker.Env>;
@@ -0,0 +1,144 @@
+import { Octokit } from "octokit";
+import { verifyWithJwks } from "hono/jwt";
+import * as v from "valibot";
+import { getSettings } from "./settings";
+import { isReadToken, verifyReadToken } from "./tokens";
+import type { Storage } from "./storage";
+
+const GITHUB_ACTIONS_ISSUER = "https://token.actions.githubusercontent.com";
+// Audience the CLI requests GitHub Actions OIDC tokens for
+export const OIDC_AUDIENCE = "preview-pkg";
+
+export type Identity = {
+  // GitHub login packages are published under
+  login: string;
+  // Repository of the GitHub Actions workflow, null for user tokens
+  repository: string | null;
+  // Authenticated as the user, null for GitHub Actions
+  octokit: Octokit | null;
+  // OAuth scopes of the user's token, null if GitHub doesn't list them
+  scopes: string[] | null;
+};
+
+export type NamespaceRole = "owner" | "admin" | "member";
+
+const GithubActionsClaims = v.object({
+  repository: v.string(),
+  repository_owner: v.string(),
+});
+
+const isJwt = (token: string) => /^[\w-]+\.[\w-]+\.[\w-]+$/.test(token);
+
+/**
+ * Resolves the identity behind an Authorization header, which is either a
+ * GitHub token of a user or a GitHub Actions OIDC token of a workflow run
+ */
+export async function authenticate(
+  authorization: string
+): Promise<Identity | null> {
+  const token = authorization.replace(/^(bearer|token)\s+/i, "");
+
+  if (isJwt(token)) {
+    const payload = await verifyWithJwks(token, {
+      jwks_uri: `${GITHUB_ACTIONS_ISSUER}/.well-known/jwks`,
+      verification: { iss: GITHUB_ACTIONS_ISSUER, aud: OIDC_AUDIENCE },
+    }).catch(() => null);
+
+    const claims = v.safeParse(GithubActionsClaims, payload);
+    if (!claims.success) return null;
+
+    const { repository, repository_owner } = claims.output;
+    if (!repository.startsWith(`${repository_owner}/`)) return null;
+    return {
+      login: repository_owner,
+      repository,
+      octokit: null,
+      scopes: null,
+    };
+  }
+
+  const octokit = new Octokit({ auth: token });
+  const authUser = await octokit.rest.users
+    .getAuthenticated()
+    .catch(() => null);
+  if (!authUser) return null;
+
+  // Fine-grained tokens have permissions instead of scopes
+  const scopes = authUser.headers["x-oauth-scopes"];
+  return {
+    login: authUser.data.login,
+    repository: null,
+    octokit,
+    scopes:
+      scopes === undefined
+        ? null
+        : scopes
+            .split(",")
+            .map((scope) => scope.trim())
+            .filter(Boolean),
+  };
+}
+
+/**
+ * Organization memberships can't be read with tokens of logins from before
+ * organization namespaces were supported, they lack the `read:org` scope
+ */
+export const lacksOrganizationScope = ({ scopes }: Identity) =>
+  scopes !== null &&
+  !["read:org", "write:org", "admin:org"].some((scope) =>
+    scopes.includes(scope)
+  );
+
+/**
+ * Returns the role of the identity in a namespace, or null if it can't publish
+ * there. Users own their namespace, while organization namespaces are open to
+ * admins and members of the organization, optionally limited to `publishTeam`
+ */
+export async function namespaceRole(
+  identity: Identity,
+  namespace: string,
+  publishTeam?: string | null
+): Promise<NamespaceRole | null> {
+  if (identity.login === namespace) return "owner";
+  if (!identity.octokit) return null;
+
+  // Needs the `read:org` scope, 404s if the namespace isn't an organization
+  const membership = await identity.octokit.rest.orgs
+    .getMembershipForAuthenticatedUser({ org: namespace })
+    .catch(() => null);
+  if (!membership || membership.data.state !== "active") return null;
+  if (membership.data.role === "admin") return "admin";
+
+  if (publishTeam) {
+    const teamMembership = await identity.octokit.rest.teams
+      .getMembershipForUserInOrg({
+        org: namespace,
+        team_slug: publishTeam,
+        username: identity.login,
+      })
+      .catch(() => null);
+    if (!teamMembership || teamMembership.data.state !== "active") return null;
+  }
+
+  return "member";
+}
+
+/**
+ * Private packages can be downloaded by anyone who can publish to their
+ * namespace, or with a read token of the namespace
+ */
+export async function canReadPrivate(
+  storage: Storage,
+  namespace: string,
+  authorization: string | undefined
+): Promise<boolean> {
+  if (!authorization) return false;
+
+  const token = authorization.replace(/^(bearer|token)\s+/i, "");
+  if (isReadToken(token)) return verifyReadToken(storage, namespace, token);
+
+  const identity = await authenticate(authorization);
+  if (!identity) return false;
+  const { publishTeam } = await getSettings(storage, namespace);
+  return (await namespaceRole(identity, namespace, publishTeam)) !== null;
+}
@@ -0,0 +1,34 @@
+const CONTENT_TYPES: Record<string, string> = {
+  js: "text/javascript; charset=utf-8",
+  mjs: "text/javascript; charset=utf-8",
+  cjs: "text/javascript; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  map: "application/json; charset=utf-8",
+  css: "text/css; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  wasm: "application/wasm",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  ico: "image/x-icon",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+};
+
+/**
+ * Content type to serve a file from a package with. Anything that isn't known
+ * is served as plain text unless it looks binary, including HTML and SVG,
+ * which could otherwise run scripts on our origin.
+ */
+export function contentType(path: string, contents: Uint8Array) {
+  const extension = path.split("/").pop()!.split(".").pop()!.toLowerCase();
+  if (CONTENT_TYPES[extension]) return CONTENT_TYPES[extension];
+  // Same heuristic as git, text files don't have NUL bytes
+  const binary = contents.subarray(0, 8000).includes(0);
+  return binary ? "application/octet-stream" : "text/plain; charset=utf-8";
+}
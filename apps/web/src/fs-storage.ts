@@ -0,0 +1,261 @@
+import { createHash, randomUUID } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+  ChecksumMismatchError,
+  encodeValue,
+  type Storage,
+  type StorageListOptions,
+  type StorageMultipartUpload,
+  type StorageObject,
+  type StorageObjectBody,
+  type StoragePutOptions,
+  type StorageUploadedPart,
+} from "./storage";
+
+// Same page size as R2 and S3
+const LIST_LIMIT = 1000;
+
+// Stored next to every object
+type ObjectMetadata = {
+  key: string;
+  size: number;
+  uploaded: string;
+  sha256: string;
+  customMetadata: Record<string, string>;
+  contentType?: string;
+};
+
+/**
+ * Keeps objects as files in `dir`, for running the API on Node. Keys are
+ * encoded into a single file name, so listing reads one directory, and every
+ * write goes through a temporary file so readers never see half of an object.
+ */
+export class FileSystemStorage implements Storage {
+  constructor(private dir: string) {}
+
+  private path(kind: "objects" | "metadata", key: string) {
+    return join(this.dir, kind, encodeURIComponent(key));
+  }
+
+  private async readMetadata(key: string): Promise<ObjectMetadata | null> {
+    return readFile(this.path("metadata", key), "utf-8")
+      .then((contents) => JSON.parse(contents) as ObjectMetadata)
+      .catch(() => null);
+  }
+
+  private toObject(metadata: ObjectMetadata, include = true): StorageObject {
+    return {
+      key: metadata.key,
+      size: metadata.size,
+      uploaded: new Date(metadata.uploaded),
+      customMetadata: include ? metadata.customMetadata : undefined,
+      sha256: metadata.sha256,
+    };
+  }
+
+  /**
+   * Moves a file written to `tempFile` into place as `key`, after checking
+   * it against the expected checksum
+   */
+  private async commit(
+    key: string,
+    tempFile: string,
+    written: { size: number; sha256: string },
+    options: StoragePutOptions = {}
+  ): Promise<StorageObject> {
+    if (options.sha256 && options.sha256.toLowerCase() !== written.sha256) {
+      await rm(tempFile, { force: true });
+      throw new ChecksumMismatchError(key);
+    }
+
+    const metadata: ObjectMetadata = {
+      key,
+      size: written.size,
+      uploaded: new Date().toISOString(),
+      sha256: written.sha256,
+      customMetadata: options.customMetadata ?? {},
+      contentType: options.contentType,
+    };
+    await mkdir(join(this.dir, "objects"), { recursive: true });
+    await mkdir(join(this.dir, "metadata"), { recursive: true });
+    await rename(tempFile, this.path("objects", key));
+    await writeFile(this.path("metadata", key), JSON.stringify(metadata));
+    return this.toObject(metadata);
+  }
+
+  // Writes chunks to a temporary file, hashing them along the way
+  private async writeTemp(chunks: AsyncIterable<Uint8Array>) {
+    const tempDir = join(this.dir, "tmp");
+    await mkdir(tempDir, { recursive: true });
+    const tempFile = join(tempDir, randomUUID());
+
+    const hash = createHash("sha256");
+    let size = 0;
+    await pipeline(
+      chunks,
+      async function* (source: AsyncIterable<Uint8Array>) {
+        for await (const chunk of source) {
+          hash.update(chunk);
+          size += chunk.byteLength;
+          yield chunk;
+        }
+      },
+      createWriteStream(tempFile)
+    );
+    return { tempFile, size, sha256: hash.digest("hex") };
+  }
+
+  async head(key: string) {
+    const metadata = await this.readMetadata(key);
+    return metadata ? this.toObject(metadata) : null;
+  }
+
+  async get(key: string): Promise<StorageObjectBody | null> {
+    const metadata = await this.readMetadata(key);
+    if (!metadata) return null;
+    const file = this.path("objects", key);
+    // The object may be deleted between reading its metadata and its contents
+    if (!(await stat(file).catch(() => null))) return null;
+
+    const read = () => readFile(file);
+    return {
+      ...this.toObject(metadata),
+      body: Readable.toWeb(
+        createReadStream(file)
+      ) as ReadableStream<Uint8Array>,
+      text: async () => (await read()).toString("utf-8"),
+      json: async <T>() => JSON.parse((await read()).toString("utf-8")) as T,
+      arrayBuffer: async () => new Uint8Array(await read()).buffer,
+    };
+  }
+
+  async put(
+    key: string,
+    value: ArrayBuffer | string,
+    options?: StoragePutOptions
+  ) {
+    const { tempFile, ...written } = await this.writeTemp(
+      Readable.from([encodeValue(value)])
+    );
+    return this.commit(key, tempFile, written, options);
+  }
+
+  async delete(keys: string | string[]) {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      await rm(this.path("metadata", key), { force: true });
+      await rm(this.path("objects", key), { force: true });
+    }
+  }
+
+  async list(options: StorageListOptions) {
+    const names = await readdir(join(this.dir, "metadata")).catch(() => []);
+    const keys = names
+      .map((name) => decodeURIComponent(name))
+      .filter((key) => key.startsWith(options.prefix ?? ""))
+      .filter((key) => !options.cursor || key > options.cursor)
+      .sort();
+
+    const page = keys.slice(0, LIST_LIMIT);
+    const include = options.withMetadata ?? false;
+    const objects = (
+      await Promise.all(page.map((key) => this.readMetadata(key)))
+    ).flatMap((metadata) =>
+      metadata ? [this.toObject(metadata, include)] : []
+    );
+
+    const truncated = keys.length > page.length;
+    return {
+      objects,
+      truncated,
+      cursor: truncated ? page.at(-1) : undefined,
+    };
+  }
+
+  async createMultipartUpload(
+    key: string,
+    options?: { customMetadata?: Record<string, string> }
+  ) {
+    const uploadId = randomUUID();
+    await mkdir(join(this.dir, "uploads", uploadId), { recursive: true });
+    await writeFile(
+      join(this.dir, "uploads", uploadId, "upload.json"),
+      JSON.stringify({ key, customMetadata: options?.customMetadata ?? {} })
+    );
+    return this.resumeMultipartUpload(key, uploadId);
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string): StorageMultipartUpload {
+    // Upload IDs come from requests, they must not be able to escape the directory
+    const valid = /^[0-9a-f-]{36}$/.test(uploadId);
+    const uploadDir = join(this.dir, "uploads", valid ? uploadId : "invalid");
+    const readUpload = async () => {
+      const upload = valid
+        ? await readFile(join(uploadDir, "upload.json"), "utf-8")
+            .then(
+              (contents) =>
+                JSON.parse(contents) as {
+                  key: string;
+                  customMetadata: Record<string, string>;
+                }
+            )
+            .catch(() => null)
+        : null;
+      if (!upload || upload.key !== key) throw new Error("Upload not found");
+      return upload;
+    };
+
+    return {
+      uploadId,
+      uploadPart: async (partNumber, value): Promise<StorageUploadedPart> => {
+        await readUpload();
+        const contents = new Uint8Array(value);
+        await writeFile(join(uploadDir, `${partNumber}.part`), contents);
+        return {
+          partNumber,
+          etag: createHash("md5").update(contents).digest("hex"),
+        };
+      },
+      complete: async (parts) => {
+        const upload = await readUpload();
+        const dir = uploadDir;
+        const { tempFile, ...written } = await this.writeTemp(
+          (async function* () {
+            for (const part of parts) {
+              const contents = await readFile(
+                join(dir, `${part.partNumber}.part`)
+              );
+              if (
+                createHash("md5").update(contents).digest("hex") !== part.etag
+              )
+                throw new Error(
+                  `Part ${part.partNumber} doesn't match its etag`
+                );
+              yield new Uint8Array(contents);
+            }
+          })()
+        );
+        const object = await this.commit(key, tempFile, written, {
+          customMetadata: upload.customMetadata,
+        });
+        await rm(uploadDir, { recursive: true, force: true });
+        return object;
+      },
+      abort: async () => {
+        await readUpload();
+        await rm(uploadDir, { recursive: true, force: true });
+      },
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import type { StorageObject } from "./storage";
+
+export type StorageKeyArgs = {
+  username: string;
+  org?: string;
+  packageName: string;
+  version: string;
+};
+
+export type PackageNameArgs = Omit<StorageKeyArgs, "version">;
+
+const namePath = ({ username, org, packageName }: PackageNameArgs) =>
+  `${username}/${org ? `@${org}__${packageName}` : packageName}`;
+
+const packagePath = (args: StorageKeyArgs) =>
+  `${namePath(args)}@${args.version}`;
+
+export const storageKey = (args: StorageKeyArgs) =>
+  `preview-pkg/${packagePath(args)}`;
+
+// Registry metadata of the tarball stored at the matching `storageKey`
+export const metadataKey = (args: StorageKeyArgs) =>
+  `preview-pkg-metadata/${packagePath(args)}`;
+
+// Where the published package was built from, see `readProvenance`
+export const provenanceKey = (args: StorageKeyArgs) =>
+  `preview-pkg-provenance/${packagePath(args)}`;
+
+// Registry metadata of every version of a package, see `loadPackageIndex`
+export const indexKey = (args: PackageNameArgs) =>
+  `preview-pkg-index/${namePath(args)}`;
+
+// Checksums and metadata of a multipart upload until it's completed
+export const uploadKey = (args: StorageKeyArgs, uploadId: string) =>
+  `preview-pkg-uploads/${packagePath(args)}/${uploadId}`;
+
+// Movable pointer to a version, the `version` arg is the tag name here
+export const tagKey = (args: StorageKeyArgs) =>
+  `preview-pkg-tags/${packagePath(args)}`;
+
+// Inverse of `storageKey`, returns null for keys that aren't package tarballs
+export const parseStorageKey = (key: string) => {
+  const match = key.match(
+    /^preview-pkg\/([^/]+)\/(?:@([^_]+)__)?([^@]+)@(.+)$/
+  );
+  if (!match) return null;
+  const [, username, org, packageName, version] = match;
+  return { username, org, packageName, version };
+};
+
+export const packageSha256 = (object: StorageObject) =>
+  object.customMetadata?.sha256 || object.sha256;
+
+export const isPrivate = (object: StorageObject) =>
+  object.customMetadata?.private === "true";
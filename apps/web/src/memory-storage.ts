@@ -0,0 +1,160 @@
+import {
+  ChecksumMismatchError,
+  encodeValue,
+  sha256Hex,
+  type Storage,
+  type StorageListOptions,
+  type StorageMultipartUpload,
+  type StorageObject,
+  type StorageObjectBody,
+  type StoragePutOptions,
+} from "./storage";
+
+// Same page size as R2 and S3
+const LIST_LIMIT = 1000;
+
+type StoredObject = {
+  object: StorageObject & { customMetadata: Record<string, string> };
+  value: Uint8Array;
+};
+
+type Upload = {
+  key: string;
+  customMetadata: Record<string, string>;
+  parts: Map<number, { etag: string; value: Uint8Array }>;
+};
+
+/**
+ * Keeps objects in memory, for tests and short lived servers
+ */
+export class MemoryStorage implements Storage {
+  objects = new Map<string, StoredObject>();
+  private uploads = new Map<string, Upload>();
+
+  async head(key: string) {
+    const stored = this.objects.get(key);
+    return stored ? { ...stored.object } : null;
+  }
+
+  async get(key: string): Promise<StorageObjectBody | null> {
+    const stored = this.objects.get(key);
+    if (!stored) return null;
+    const { value } = stored;
+    return {
+      ...stored.object,
+      body: new Blob([Uint8Array.from(value)]).stream(),
+      text: async () => new TextDecoder().decode(value),
+      json: async <T>() => JSON.parse(new TextDecoder().decode(value)) as T,
+      arrayBuffer: async () => Uint8Array.from(value).buffer,
+    };
+  }
+
+  private store(
+    key: string,
+    value: Uint8Array,
+    options: StoragePutOptions = {}
+  ): StorageObject {
+    const sha256 = sha256Hex(value);
+    if (options.sha256 && options.sha256.toLowerCase() !== sha256)
+      throw new ChecksumMismatchError(key);
+
+    const object = {
+      key,
+      size: value.byteLength,
+      uploaded: new Date(),
+      customMetadata: { ...options.customMetadata },
+      sha256,
+    };
+    this.objects.set(key, { object, value });
+    return { ...object };
+  }
+
+  async put(
+    key: string,
+    value: ArrayBuffer | string,
+    options?: StoragePutOptions
+  ) {
+    return this.store(key, encodeValue(value), options);
+  }
+
+  async delete(keys: string | string[]) {
+    for (const key of Array.isArray(keys) ? keys : [keys])
+      this.objects.delete(key);
+  }
+
+  async list(options: StorageListOptions) {
+    const keys = [...this.objects.keys()]
+      .filter((key) => key.startsWith(options.prefix ?? ""))
+      .filter((key) => !options.cursor || key > options.cursor)
+      .sort();
+
+    const page = keys.slice(0, LIST_LIMIT);
+    const truncated = keys.length > page.length;
+    return {
+      objects: page.map((key) => {
+        const { customMetadata, ...object } = this.objects.get(key)!.object;
+        return options.withMetadata ? { ...object, customMetadata } : object;
+      }),
+      truncated,
+      cursor: truncated ? page.at(-1) : undefined,
+    };
+  }
+
+  async createMultipartUpload(
+    key: string,
+    options?: { customMetadata?: Record<string, string> }
+  ) {
+    const uploadId = crypto.randomUUID();
+    this.uploads.set(uploadId, {
+      key,
+      customMetadata: { ...options?.customMetadata },
+      parts: new Map(),
+    });
+    return this.resumeMultipartUpload(key, uploadId);
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string): StorageMultipartUpload {
+    const findUpload = () => {
+      const upload = this.uploads.get(uploadId);
+      if (!upload || upload.key !== key) throw new Error("Upload not found");
+      return upload;
+    };
+
+    return {
+      uploadId,
+      uploadPart: async (partNumber, value) => {
+        const contents = new Uint8Array(value.slice(0));
+        const etag = sha256Hex(contents);
+        findUpload().parts.set(partNumber, { etag, value: contents });
+        return { partNumber, etag };
+      },
+      complete: async (parts) => {
+        const upload = findUpload();
+        const values = parts.map(({ partNumber, etag }) => {
+          const part = upload.parts.get(partNumber);
+          if (part?.etag !== etag)
+            throw new Error(`Part ${partNumber} doesn't match its etag`);
+          return part.value;
+        });
+
+        const value = new Uint8Array(
+          values.reduce((size, part) => size + part.byteLength, 0)
+        );
+        let offset = 0;
+        for (const part of values) {
+          value.set(part, offset);
+          offset += part.byteLength;
+        }
+
+        this.uploads.delete(uploadId);
+        return this.store(key, value, {
+          customMetadata: upload.customMetadata,
+        });
+      },
+      abort: async () => {
+        findUpload();
+        this.uploads.delete(uploadId);
+      },
+    };
+  }
+}
@@ -0,0 +1,284 @@
+import { html, raw } from "hono/html";
+import type { PackageManifest } from "./registry";
+import type { TarEntry } from "./tarball";
+
+export type VersionSummary = {
+  version: string;
+  url: string;
+  size: number;
+  uploaded: Date;
+  expires: Date | null;
+  tags: string[];
+};
+
+export type VersionDetails = VersionSummary & {
+  username: string;
+  name: string;
+  sha256: string | null;
+  publishedBy: string | null;
+  private: boolean;
+  commit: string | null;
+  // Published with uncommitted changes
+  dirty: boolean;
+  signedBy: string | null;
+  // Null if the package was published without provenance
+  provenanceUrl: string | null;
+  manifest: PackageManifest;
+  readme: string | null;
+  files: TarEntry[];
+  // Number of files in the tarball, `files` may only have the first ones
+  fileCount: number;
+};
+
+const STYLES = `
+  body { font: 15px/1.5 system-ui, sans-serif; max-width: 960px; margin: 0 auto; padding: 24px; color: #1f2328; }
+  a { color: #0969da; text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #d0d7de; padding-bottom: 4px; }
+  code, pre { font: 13px/1.45 ui-monospace, monospace; }
+  pre { background: #f6f8fa; padding: 12px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { text-align: left; padding: 4px 12px 4px 0; vertical-align: top; }
+  .muted { color: #59636e; }
+  .tag { background: #ddf4ff; border-radius: 12px; padding: 0 8px; font-size: 12px; margin-right: 4px; }
+  .install { display: flex; gap: 8px; align-items: center; margin: 4px 0; }
+  .install pre { flex: 1; margin: 0; padding: 6px 12px; }
+  .size { text-align: right; white-space: nowrap; }
+`;
+
+// The install commands are the only thing worth copying, so no framework for this
+const COPY_SCRIPT = `
+  document.addEventListener("click", (event) => {
+    const button = event.target.closest("[data-copy]");
+    if (!button) return;
+    navigator.clipboard.writeText(button.dataset.copy);
+    button.textContent = "Copied";
+    setTimeout(() => (button.textContent = "Copy"), 1500);
+  });
+`;
+
+const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+const formatDate = (date: Date) =>
+  html`<time datetime="${date.toISOString()}"
+    >${date.toISOString().replace("T", " ").slice(0, 16)} UTC</time
+  >`;
+
+const tags = (names: string[]) =>
+  names.map((name) => html`<span class="tag">${name}</span>`);
+
+const layout = (title: string, body: unknown) =>
+  html`<!doctype html>
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>${title} · preview-pkg</title>
+        <style>
+          ${raw(STYLES)}
+        </style>
+      </head>
+      <body>
+        ${body}
+        <script>
+          ${raw(COPY_SCRIPT)};
+        </script>
+      </body>
+    </html>`;
+
+export function userPage(
+  username: string,
+  packages: Array<{ name: string; versions: VersionSummary[] }>
+) {
+  return layout(
+    username,
+    html`<h1>${username}</h1>
+      <p class="muted">Preview packages published by ${username}</p>
+      ${
+        packages.length === 0
+          ? html`<p>No packages have been published yet.</p>`
+          : packages.map(
+              ({ name, versions }) =>
+                html`<h2>${name}</h2>
+                  <table>
+                    ${versions.map(
+                      (version) =>
+                        html`<tr>
+                          <td>
+                            <a href="${version.url}"
+                              ><code>${version.version}</code></a
+                            >
+                            ${tags(version.tags)}
+                          </td>
+                          <td class="muted">${formatDate(version.uploaded)}</td>
+                          <td class="muted">
+                            ${
+                              version.expires
+                                ? html`expires ${formatDate(version.expires)}`
+                                : ""
+                            }
+                          </td>
+                          <td class="size">${formatBytes(version.size)}</td>
+                        </tr>`
+                    )}
+                  </table>`
+            )
+      }`
+  );
+}
+
+const installCommands = (url: string) =>
+  [
+    ["npm", "install"],
+    ["pnpm", "add"],
+    ["yarn", "add"],
+    ["bun", "add"],
+  ].map(([packageManager, command]) => {
+    const line = `${packageManager} ${command} ${url}`;
+    return html`<div class="install">
+      <pre>${line}</pre>
+      <button type="button" data-copy="${line}">Copy</button>
+    </div>`;
+  });
+
+const DEPENDENCY_FIELDS = [
+  "dependencies",
+  "peerDependencies",
+  "optionalDependencies",
+] as const;
+
+const dependencyTables = (manifest: PackageManifest) =>
+  DEPENDENCY_FIELDS.flatMap((field) => {
+    const deps = manifest[field];
+    if (!deps || typeof deps !== "object") return [];
+    const entries = Object.entries(deps as Record<string, string>);
+    if (entries.length === 0) return [];
+    return html`<h2>${field} (${entries.length})</h2>
+      <table>
+        ${entries.map(
+          ([name, spec]) =>
+            html`<tr>
+              <td><code>${name}</code></td>
+              <td><code>${spec}</code></td>
+            </tr>`
+        )}
+      </table>`;
+  });
+
+export function versionPage(details: VersionDetails) {
+  const { manifest } = details;
+  // Only shown if they are plain strings, package.json fields can be anything
+  const text = (value: unknown) => (typeof value === "string" ? value : null);
+  const fields: Array<[string, unknown]> = [
+    ["Version", html`<code>${details.version}</code> ${tags(details.tags)}`],
+    ["package.json version", text(manifest.version)],
+    ["License", text(manifest.license)],
+    ["Size", formatBytes(details.size)],
+    ["SHA-256", details.sha256 ? html`<code>${details.sha256}</code>` : null],
+    ["Published", formatDate(details.uploaded)],
+    ["Published by", details.publishedBy],
+    [
+      "Commit",
+      details.commit
+        ? html`<code>${details.commit}</code>${
+              details.dirty
+                ? html` <span class="muted">with uncommitted changes</span>`
+                : ""
+            }`
+        : null,
+    ],
+    [
+      "Signed by",
+      details.signedBy ? html`<code>${details.signedBy}</code>` : null,
+    ],
+    [
+      "Provenance",
+      details.provenanceUrl
+        ? html`<a href="${details.provenanceUrl}">JSON</a>`
+        : null,
+    ],
+    ["Expires", details.expires ? formatDate(details.expires) : "Never"],
+    ["Visibility", details.private ? "Private" : "Public"],
+  ];
+
+  return layout(
+    `${details.name}@${details.version}`,
+    html`<p>
+        <a href="/${details.username}">${details.username}</a>
+      </p>
+      <h1>${details.name}</h1>
+      ${
+        text(manifest.description)
+          ? html`<p class="muted">${manifest.description}</p>`
+          : ""
+      }
+
+      <h2>Install</h2>
+      ${installCommands(details.url)}
+      <p>
+        <a href="${details.url}?download">Download tarball</a>
+      </p>
+
+      <h2>Details</h2>
+      <table>
+        ${fields
+          .filter(([, value]) => value !== undefined && value !== null)
+          .map(
+            ([label, value]) =>
+              html`<tr>
+                <th>${label}</th>
+                <td>${value}</td>
+              </tr>`
+          )}
+      </table>
+
+      ${dependencyTables(manifest)}
+
+      <h2>Files (${details.fileCount})</h2>
+      <table>
+        ${details.files.map(
+          (file) =>
+            html`<tr>
+              <td>
+                <a href="${details.url}/-/files/${encodeURI(file.path)}"
+                  ><code>${file.path}</code></a
+                >
+              </td>
+              <td class="size">${formatBytes(file.size)}</td>
+            </tr>`
+        )}
+      </table>
+      ${
+        details.fileCount > details.files.length
+          ? html`<p class="muted">
+              and ${details.fileCount - details.files.length} more files
+            </p>`
+          : ""
+      }
+
+      <h2>README</h2>
+      ${
+        details.readme
+          ? html`<pre>${details.readme}</pre>`
+          : html`<p class="muted">This package has no README.</p>`
+      }`
+  );
+}
+
+export function errorPage(title: string, message: string) {
+  return layout(
+    title,
+    html`<h1>${title}</h1>
+      <p>${message}</p>`
+  );
+}
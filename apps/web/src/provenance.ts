@@ -0,0 +1,144 @@
+import * as v from "valibot";
+
+// Stored in its own object, R2 custom metadata is limited to 2KB
+const MAX_PROVENANCE_SIZE = 1024 * 16;
+
+export const ProvenanceOptions = {
+  // JSON written by the CLI, kept as a string so signatures can be checked
+  provenance: v.optional(
+    v.pipe(
+      v.string(),
+      v.maxLength(MAX_PROVENANCE_SIZE, "Maximum provenance size is 16KB")
+    )
+  ),
+  // Base64 of the DER encoded SPKI Ed25519 public key and the signature
+  publicKey: v.optional(v.string()),
+  signature: v.optional(v.string()),
+};
+
+// Only what the API relies on is checked, anything else is kept as it was sent
+const Provenance = v.looseObject({
+  subject: v.object({
+    name: v.string(),
+    version: v.string(),
+    sha256: v.string(),
+  }),
+  git: v.nullish(
+    v.looseObject({
+      commit: v.pipe(v.string(), v.regex(/^[0-9a-f]{40,64}$/)),
+      branch: v.nullish(v.string()),
+      dirty: v.boolean(),
+    })
+  ),
+});
+
+export type StoredProvenance = {
+  // Exact JSON that was signed
+  payload: string;
+  signature: { keyId: string; publicKey: string; signature: string } | null;
+};
+
+// Short fingerprint of a public key, the CLI shows the same one
+export async function signingKeyId(publicKey: Uint8Array<ArrayBuffer>) {
+  const digest = await crypto.subtle.digest("SHA-256", publicKey);
+  return Buffer.from(digest).toString("hex").slice(0, 16);
+}
+
+async function verifySignature(
+  payload: string,
+  publicKey: Uint8Array<ArrayBuffer>,
+  signature: Uint8Array<ArrayBuffer>
+) {
+  try {
+    const key = await crypto.subtle.importKey(
+      "spki",
+      publicKey,
+      { name: "Ed25519" },
+      false,
+      ["verify"]
+    );
+    return await crypto.subtle.verify(
+      { name: "Ed25519" },
+      key,
+      signature,
+      new TextEncoder().encode(payload)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates the provenance sent with a package, it has to describe the package
+ * being published and signatures have to match. Returns null if none was sent.
+ */
+export async function readProvenance(
+  options: { provenance?: string; publicKey?: string; signature?: string },
+  subject: { name: string; version: string; sha256: string }
+): Promise<
+  | { stored: StoredProvenance; git: v.InferOutput<typeof Provenance>["git"] }
+  | { error: string }
+  | null
+> {
+  if (!options.provenance) {
+    if (options.publicKey || options.signature)
+      return { error: "Signature sent without provenance" };
+    return null;
+  }
+
+  const parsed = v.safeParse(
+    v.pipe(v.string(), v.parseJson(), Provenance),
+    options.provenance
+  );
+  if (!parsed.success) return { error: "Invalid provenance" };
+
+  const provenance = parsed.output;
+  if (
+    provenance.subject.name !== subject.name ||
+    provenance.subject.version !== subject.version ||
+    provenance.subject.sha256 !== subject.sha256
+  )
+    return { error: "Provenance doesn't describe this package" };
+
+  if (!options.publicKey && !options.signature)
+    return {
+      stored: { payload: options.provenance, signature: null },
+      git: provenance.git,
+    };
+  if (!options.publicKey || !options.signature)
+    return { error: "Signatures need both a public key and a signature" };
+
+  const publicKey = Uint8Array.from(Buffer.from(options.publicKey, "base64"));
+  const signature = Uint8Array.from(Buffer.from(options.signature, "base64"));
+  if (!(await verifySignature(options.provenance, publicKey, signature)))
+    return { error: "Invalid provenance signature" };
+
+  return {
+    stored: {
+      payload: options.provenance,
+      signature: {
+        keyId: await signingKeyId(publicKey),
+        publicKey: options.publicKey,
+        signature: options.signature,
+      },
+    },
+    git: provenance.git,
+  };
+}
+
+/**
+ * Summary stored in the custom metadata of the tarball, so it can be sent as
+ * headers without reading the provenance
+ */
+export const provenanceMetadata = ({
+  stored,
+  git,
+}: {
+  stored: StoredProvenance;
+  git: v.InferOutput<typeof Provenance>["git"];
+}): Record<string, string> => ({
+  ...(git
+    ? { commit: git.commit, ...(git.dirty ? { dirty: "true" } : {}) }
+    : {}),
+  ...(stored.signature ? { signedBy: stored.signature.keyId } : {}),
+});
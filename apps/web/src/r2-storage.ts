@@ -0,0 +1,106 @@
+import {
+  ChecksumMismatchError,
+  type Storage,
+  type StorageListOptions,
+  type StorageMultipartUpload,
+  type StorageObject,
+  type StorageObjectBody,
+  type StoragePutOptions,
+} from "./storage";
+
+const toObject = (object: R2Object): StorageObject => ({
+  key: object.key,
+  size: object.size,
+  uploaded: object.uploaded,
+  customMetadata: object.customMetadata,
+  sha256: object.checksums.sha256
+    ? Buffer.from(object.checksums.sha256).toString("hex")
+    : null,
+});
+
+/**
+ * Stores objects in the R2 bucket bound to the worker
+ */
+export class R2Storage implements Storage {
+  constructor(private bucket: R2Bucket) {}
+
+  async head(key: string) {
+    const object = await this.bucket.head(key);
+    return object ? toObject(object) : null;
+  }
+
+  async get(key: string): Promise<StorageObjectBody | null> {
+    const object = await this.bucket.get(key);
+    if (!object) return null;
+    return {
+      ...toObject(object),
+      body: object.body,
+      text: () => object.text(),
+      json: () => object.json(),
+      arrayBuffer: () => object.arrayBuffer(),
+    };
+  }
+
+  async put(
+    key: string,
+    value: ArrayBuffer | string,
+    options: StoragePutOptions = {}
+  ) {
+    const object = await this.bucket
+      .put(key, value, {
+        customMetadata: options.customMetadata,
+        httpMetadata: options.contentType
+          ? { contentType: options.contentType }
+          : undefined,
+        sha256: options.sha256,
+      })
+      .catch((error: unknown) => {
+        // R2 only tells checksum mismatches apart by the message
+        if (error instanceof Error && error.message.includes("SHA-256"))
+          throw new ChecksumMismatchError(key);
+        throw error;
+      });
+    // Only null with conditional puts, which aren't used
+    return toObject(object!);
+  }
+
+  async delete(keys: string | string[]) {
+    await this.bucket.delete(keys);
+  }
+
+  async list(options: StorageListOptions) {
+    // `include` is missing from the bundled R2 types, but the runtime supports it
+    const listOptions = {
+      prefix: options.prefix,
+      cursor: options.cursor,
+      include: options.withMetadata ? ["customMetadata"] : [],
+    } satisfies R2ListOptions & { include: string[] };
+    const page = await this.bucket.list(listOptions);
+    return {
+      objects: page.objects.map(toObject),
+      truncated: page.truncated,
+      cursor: page.truncated ? page.cursor : undefined,
+    };
+  }
+
+  async createMultipartUpload(
+    key: string,
+    options?: { customMetadata?: Record<string, string> }
+  ) {
+    const upload = await this.bucket.createMultipartUpload(key, options);
+    return this.resumeMultipartUpload(key, upload.uploadId);
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string): StorageMultipartUpload {
+    const upload = this.bucket.resumeMultipartUpload(key, uploadId);
+    return {
+      uploadId,
+      uploadPart: async (partNumber, value) => {
+        const part = await upload.uploadPart(partNumber, value);
+        return { partNumber: part.partNumber, etag: part.etag };
+      },
+      complete: async (parts) => toObject(await upload.complete(parts)),
+      abort: () => upload.abort(),
+    };
+  }
+}
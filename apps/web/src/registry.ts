@@ -0,0 +1,253 @@
+import { createHash } from "node:crypto";
+import { readTarballFile } from "./tarball";
+import {
+  indexKey,
+  metadataKey,
+  storageKey,
+  type PackageNameArgs,
+} from "./keys";
+import type { Storage, StorageObject } from "./storage";
+
+export type PackageManifest = {
+  name?: string;
+  version?: string;
+  [key: string]: unknown;
+};
+
+// Stored alongside every tarball so packuments don't need to read tarballs
+export type PackageMetadata = {
+  manifest: PackageManifest;
+  shasum: string;
+  integrity: string;
+};
+
+/**
+ * Reads a tarball once, hashing it and extracting its package.json along the
+ * way, so large packages never have to be buffered in memory
+ */
+export async function inspectTarball(
+  body: ReadableStream<Uint8Array>
+): Promise<{ sha256: string; metadata: PackageMetadata }> {
+  const [hashed, unpacked] = body.tee();
+  const hashes = {
+    sha1: createHash("sha1"),
+    sha256: createHash("sha256"),
+    sha512: createHash("sha512"),
+  };
+
+  const hashing = (async () => {
+    const reader = hashed.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      for (const hash of Object.values(hashes)) hash.update(value);
+    }
+  })();
+
+  const [manifestFile] = await Promise.all([
+    readTarballFile(unpacked, "package.json").catch(() => null),
+    hashing,
+  ]);
+
+  let manifest: PackageManifest = {};
+  try {
+    if (manifestFile)
+      manifest = JSON.parse(new TextDecoder().decode(manifestFile));
+  } catch {}
+
+  return {
+    sha256: hashes.sha256.digest("hex"),
+    metadata: {
+      manifest,
+      shasum: hashes.sha1.digest("hex"),
+      integrity: `sha512-${hashes.sha512.digest("base64")}`,
+    },
+  };
+}
+
+export async function loadPackageMetadata(
+  storage: Storage,
+  packageKey: string,
+  metadataKey: string
+): Promise<PackageMetadata | null> {
+  const stored = await storage.get(metadataKey);
+  if (stored) return stored.json<PackageMetadata>();
+
+  // Packages published before metadata was recorded, compute it once and keep it
+  const tarball = await storage.get(packageKey);
+  if (!tarball) return null;
+
+  const { metadata } = await inspectTarball(tarball.body);
+  await storage.put(metadataKey, JSON.stringify(metadata), {
+    contentType: "application/json",
+  });
+  return metadata;
+}
+
+// Registry metadata of every version of a package, keyed by version
+export type PackageIndex = Record<string, PackageMetadata>;
+
+export async function loadPackageIndex(
+  storage: Storage,
+  args: PackageNameArgs
+): Promise<PackageIndex> {
+  const stored = await storage.get(indexKey(args));
+  return stored ? stored.json<PackageIndex>() : {};
+}
+
+/**
+ * Adds versions to the package index, or removes the ones set to null.
+ * Concurrent updates can overwrite each other, which `loadVersionsMetadata`
+ * repairs, so the index never has to be exact.
+ */
+export async function updatePackageIndex(
+  storage: Storage,
+  args: PackageNameArgs,
+  changes: Record<string, PackageMetadata | null>
+) {
+  const index = await loadPackageIndex(storage, args);
+  for (const [version, metadata] of Object.entries(changes)) {
+    if (metadata) index[version] = metadata;
+    else delete index[version];
+  }
+
+  if (Object.keys(index).length === 0) {
+    await storage.delete(indexKey(args));
+  } else {
+    await storage.put(indexKey(args), JSON.stringify(index), {
+      contentType: "application/json",
+    });
+  }
+}
+
+/**
+ * Returns the registry metadata of published versions from the package index,
+ * so packuments take a single read no matter how many versions there are.
+ * Versions missing from the index are loaded one by one and added to it.
+ */
+export async function loadVersionsMetadata(
+  storage: Storage,
+  args: PackageNameArgs,
+  versions: string[]
+): Promise<Map<string, PackageMetadata>> {
+  const index = await loadPackageIndex(storage, args);
+  const missing = versions.filter((version) => !Object.hasOwn(index, version));
+
+  const loaded = await Promise.all(
+    missing.map(async (version) => {
+      const metadata = await loadPackageMetadata(
+        storage,
+        storageKey({ ...args, version }),
+        metadataKey({ ...args, version })
+      );
+      return [version, metadata] as const;
+    })
+  );
+  const added = Object.fromEntries(
+    loaded.filter(([, metadata]) => metadata !== null)
+  );
+  if (Object.keys(added).length > 0)
+    await updatePackageIndex(storage, args, added).catch(() => {});
+
+  return new Map(
+    versions.flatMap((version) => {
+      const metadata = index[version] ?? added[version];
+      return metadata ? [[version, metadata]] : [];
+    })
+  );
+}
+
+export async function listAllObjects(storage: Storage, prefix: string) {
+  const objects: StorageObject[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await storage.list({
+      prefix,
+      cursor,
+      withMetadata: true,
+    });
+    objects.push(...page.objects);
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return objects;
+}
+
+/**
+ * Preview versions are commit hashes or custom strings, which aren't valid
+ * semver, so we turn them into a prerelease of the version in package.json
+ */
+export function previewSemver(baseVersion: unknown, previewVersion: string) {
+  const base =
+    typeof baseVersion === "string" &&
+    /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?(\+.*)?$/.test(baseVersion)
+      ? baseVersion.split("+")[0]
+      : "0.0.0";
+  return `${base}${base.includes("-") ? "." : "-"}preview-${previewVersion}`;
+}
+
+export type PackumentVersion = {
+  version: string;
+  uploaded: Date;
+  tarballUrl: string;
+  metadata: PackageMetadata;
+};
+
+/**
+ * Builds the packument of a package, `tags` maps dist-tags to preview versions
+ * and `latest` defaults to the most recently published version
+ */
+export function buildPackument(
+  name: string,
+  versions: PackumentVersion[],
+  tags: Record<string, string>
+) {
+  const sorted = [...versions].sort(
+    (a, b) => a.uploaded.getTime() - b.uploaded.getTime()
+  );
+
+  const packument = {
+    _id: name,
+    name,
+    "dist-tags": {} as Record<string, string>,
+    versions: {} as Record<string, Record<string, unknown>>,
+    time: {} as Record<string, string>,
+  };
+
+  for (const { version, uploaded, tarballUrl, metadata } of sorted) {
+    const semver = previewSemver(metadata.manifest.version, version);
+    packument.versions[semver] = {
+      ...metadata.manifest,
+      name,
+      version: semver,
+      _id: `${name}@${semver}`,
+      dist: {
+        tarball: tarballUrl,
+        integrity: metadata.integrity,
+        shasum: metadata.shasum,
+      },
+    };
+    packument.time[semver] = uploaded.toISOString();
+  }
+
+  const latest = sorted.at(-1);
+  if (latest) {
+    packument["dist-tags"].latest = previewSemver(
+      latest.metadata.manifest.version,
+      latest.version
+    );
+    packument.time.created = sorted[0].uploaded.toISOString();
+    packument.time.modified = latest.uploaded.toISOString();
+  }
+
+  for (const [tag, version] of Object.entries(tags)) {
+    const tagged = sorted.find((v) => v.version === version);
+    if (tagged) {
+      packument["dist-tags"][tag] = previewSemver(
+        tagged.metadata.manifest.version,
+        tagged.version
+      );
+    }
+  }
+
+  return packument;
+}
@@ -0,0 +1,124 @@
+import * as v from "valibot";
+import { listAllObjects, updatePackageIndex } from "./registry";
+import { deleteTags, listTags } from "./tags";
+import {
+  metadataKey,
+  parseStorageKey,
+  provenanceKey,
+  type PackageNameArgs,
+} from "./keys";
+import type { Storage, StorageObject } from "./storage";
+
+const DURATION_UNITS = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// A duration like `12h`, `7d` or `2w`, or `never` to keep packages forever
+export const Duration = v.pipe(
+  v.string(),
+  v.regex(
+    /^(never|[1-9]\d{0,3}[hdw])$/,
+    "Duration must be like 12h, 7d, 2w or never"
+  )
+);
+
+/**
+ * Returns the duration in milliseconds, or null if packages should never expire
+ */
+export function parseDuration(duration: string): number | null {
+  if (duration === "never") return null;
+  const unit = duration.slice(-1) as keyof typeof DURATION_UNITS;
+  return Number(duration.slice(0, -1)) * DURATION_UNITS[unit];
+}
+
+/**
+ * Returns the expiry date of a package published now, using the TTL passed at
+ * publish time and falling back to the namespace's default retention
+ */
+export function resolveExpiry(
+  ttl: string | undefined,
+  defaultTtl: string | null | undefined
+): Date | null {
+  const ms = parseDuration(ttl ?? defaultTtl ?? "never");
+  return ms === null ? null : new Date(Date.now() + ms);
+}
+
+export const packageExpiry = (object: StorageObject) =>
+  object.customMetadata?.expiresAt
+    ? new Date(object.customMetadata.expiresAt)
+    : null;
+
+export const isExpired = (object: StorageObject) => {
+  const expiry = packageExpiry(object);
+  return expiry !== null && expiry.getTime() <= Date.now();
+};
+
+/**
+ * Deletes every expired package tarball along with its registry metadata,
+ * provenance and the tags pointing to it, and the state of abandoned uploads.
+ * Called from the scheduled handler of the worker
+ */
+export async function sweepExpiredPackages(storage: Storage) {
+  const expired = (await listAllObjects(storage, "preview-pkg/")).filter(
+    isExpired
+  );
+
+  const keys = expired.flatMap((object) => {
+    const parsed = parseStorageKey(object.key);
+    return parsed
+      ? [object.key, metadataKey(parsed), provenanceKey(parsed)]
+      : [object.key];
+  });
+
+  // R2 aborts multipart uploads after a week, their checksums can go then too
+  const abandonedUploads = await listAllObjects(
+    storage,
+    "preview-pkg-uploads/"
+  );
+  for (const object of abandonedUploads) {
+    if (Date.now() - object.uploaded.getTime() > DURATION_UNITS.w)
+      keys.push(object.key);
+  }
+
+  // R2 can only delete 1000 keys at once
+  for (let i = 0; i < keys.length; i += 1000) {
+    await storage.delete(keys.slice(i, i + 1000));
+  }
+
+  for (const { args, versions } of groupByPackage(expired)) {
+    await updatePackageIndex(
+      storage,
+      args,
+      Object.fromEntries(versions.map((version) => [version, null]))
+    );
+
+    // Like unpublishing, tags can't point to swept versions
+    const tags = await listTags(storage, args);
+    await deleteTags(
+      storage,
+      args,
+      Object.keys(tags).filter((tag) => versions.includes(tags[tag]!))
+    );
+  }
+
+  return expired.length;
+}
+
+// Versions of the swept objects, grouped by the package they belong to
+const groupByPackage = (objects: StorageObject[]) => {
+  const packages = new Map<
+    string,
+    { args: PackageNameArgs; versions: string[] }
+  >();
+  for (const object of objects) {
+    const parsed = parseStorageKey(object.key);
+    if (!parsed) continue;
+    const { version, ...args } = parsed;
+    const key = object.key.slice(0, -version.length);
+    if (!packages.has(key)) packages.set(key, { args, versions: [] });
+    packages.get(key)!.versions.push(version);
+  }
+  return packages.values();
+};
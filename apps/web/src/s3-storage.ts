@@ -0,0 +1,318 @@
+import { AwsClient } from "aws4fetch";
+import {
+  ChecksumMismatchError,
+  encodeValue,
+  sha256Hex,
+  type Storage,
+  type StorageListOptions,
+  type StorageMultipartUpload,
+  type StorageObject,
+  type StorageObjectBody,
+  type StoragePutOptions,
+} from "./storage";
+
+// S3 lowercases metadata names, so custom metadata is kept as JSON in one header
+const METADATA_HEADER = "x-amz-meta-preview-pkg";
+// DeleteObjects takes at most 1000 keys
+const DELETE_LIMIT = 1000;
+// Listing with metadata heads every object, this many at a time
+const HEAD_CONCURRENCY = 16;
+
+export type S3StorageOptions = {
+  // e.g. https://s3.us-east-1.amazonaws.com, objects use path style URLs
+  endpoint: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region?: string;
+};
+
+const encodeKey = (key: string) =>
+  key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+      )
+    )
+    .join("/");
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+
+// Responses are small and flat enough to not need an XML parser
+const xmlValues = (xml: string, tag: string) =>
+  [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "g"))].map(
+    (match) => unescapeXml(match[1]!)
+  );
+
+const base64ToHex = (value: string) =>
+  Buffer.from(value, "base64").toString("hex");
+
+/**
+ * Stores objects in a bucket of S3 or an S3 compatible service like MinIO or
+ * the S3 API of R2
+ */
+export class S3Storage implements Storage {
+  private client: AwsClient;
+
+  constructor(private options: S3StorageOptions) {
+    this.client = new AwsClient({
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+      service: "s3",
+      region: options.region ?? "auto",
+    });
+  }
+
+  private url(key: string, query: Record<string, string> = {}) {
+    const url = new URL(
+      `${this.options.endpoint.replace(/\/$/, "")}/${encodeURIComponent(
+        this.options.bucket
+      )}/${encodeKey(key)}`
+    );
+    for (const [name, value] of Object.entries(query))
+      url.searchParams.set(name, value);
+    return url;
+  }
+
+  private async request(
+    url: URL,
+    init: RequestInit = {},
+    { allowNotFound = false } = {}
+  ) {
+    const res = await this.client.fetch(url, init);
+    if (res.ok || (allowNotFound && res.status === 404)) return res;
+    const body = await res.text();
+    throw Object.assign(
+      new Error(
+        `S3 ${init.method ?? "GET"} ${url.pathname} failed with ${
+          res.status
+        }: ${xmlValues(body, "Message")[0] ?? body}`
+      ),
+      { code: xmlValues(body, "Code")[0] }
+    );
+  }
+
+  private toObject(key: string, res: Response): StorageObject {
+    const metadata = res.headers.get(METADATA_HEADER);
+    const checksum = res.headers.get("x-amz-checksum-sha256");
+    return {
+      key,
+      size: Number(res.headers.get("content-length") ?? 0),
+      uploaded: new Date(res.headers.get("last-modified") ?? Date.now()),
+      customMetadata: metadata ? JSON.parse(decodeURIComponent(metadata)) : {},
+      // Checksums of multipart uploads are composite, e.g. `<checksum>-3`
+      sha256:
+        checksum && res.headers.get("x-amz-checksum-type") !== "COMPOSITE"
+          ? base64ToHex(checksum)
+          : null,
+    };
+  }
+
+  private metadataHeaders(
+    customMetadata?: Record<string, string>
+  ): Record<string, string> {
+    return customMetadata && Object.keys(customMetadata).length > 0
+      ? {
+          [METADATA_HEADER]: encodeURIComponent(JSON.stringify(customMetadata)),
+        }
+      : {};
+  }
+
+  async head(key: string) {
+    const res = await this.request(
+      this.url(key),
+      { method: "HEAD", headers: { "x-amz-checksum-mode": "ENABLED" } },
+      { allowNotFound: true }
+    );
+    return res.status === 404 ? null : this.toObject(key, res);
+  }
+
+  async get(key: string): Promise<StorageObjectBody | null> {
+    const res = await this.request(
+      this.url(key),
+      { headers: { "x-amz-checksum-mode": "ENABLED" } },
+      { allowNotFound: true }
+    );
+    if (res.status === 404) return null;
+    return {
+      ...this.toObject(key, res),
+      body: res.body!,
+      text: () => res.text(),
+      json: <T>() => res.json() as Promise<T>,
+      arrayBuffer: () => res.arrayBuffer(),
+    };
+  }
+
+  async put(
+    key: string,
+    value: ArrayBuffer | string,
+    options: StoragePutOptions = {}
+  ) {
+    const body = encodeValue(value);
+    const sha256 = sha256Hex(body);
+    // S3 verifies the checksum itself, checking it first saves the upload
+    if (options.sha256 && options.sha256.toLowerCase() !== sha256)
+      throw new ChecksumMismatchError(key);
+
+    const headers: Record<string, string> = {
+      "x-amz-checksum-sha256": Buffer.from(sha256, "hex").toString("base64"),
+      ...this.metadataHeaders(options.customMetadata),
+    };
+    if (options.contentType) headers["content-type"] = options.contentType;
+
+    await this.request(this.url(key), { method: "PUT", body, headers }).catch(
+      (error) => {
+        if (error.code === "BadDigest") throw new ChecksumMismatchError(key);
+        throw error;
+      }
+    );
+
+    return {
+      key,
+      size: body.byteLength,
+      uploaded: new Date(),
+      customMetadata: options.customMetadata ?? {},
+      sha256,
+    };
+  }
+
+  async delete(keys: string | string[]) {
+    const all = Array.isArray(keys) ? keys : [keys];
+    for (let i = 0; i < all.length; i += DELETE_LIMIT) {
+      const body = `<Delete><Quiet>true</Quiet>${all
+        .slice(i, i + DELETE_LIMIT)
+        .map((key) => `<Object><Key>${escapeXml(key)}</Key></Object>`)
+        .join("")}</Delete>`;
+      const res = await this.request(this.url("", { delete: "" }), {
+        method: "POST",
+        body,
+        headers: {
+          // DeleteObjects requires a checksum of the body
+          "x-amz-checksum-sha256": Buffer.from(
+            sha256Hex(encodeValue(body)),
+            "hex"
+          ).toString("base64"),
+        },
+      });
+      const errors = xmlValues(await res.text(), "Error");
+      if (errors.length > 0)
+        throw new Error(
+          `S3 failed to delete ${errors.length} object(s): ${xmlValues(
+            errors[0]!,
+            "Message"
+          )}`
+        );
+    }
+  }
+
+  async list(options: StorageListOptions) {
+    const res = await this.request(
+      this.url("", {
+        "list-type": "2",
+        prefix: options.prefix ?? "",
+        ...(options.cursor ? { "continuation-token": options.cursor } : {}),
+      })
+    );
+    const xml = await res.text();
+
+    const objects: StorageObject[] = xmlValues(xml, "Contents").map(
+      (contents) => ({
+        key: xmlValues(contents, "Key")[0]!,
+        size: Number(xmlValues(contents, "Size")[0]),
+        uploaded: new Date(xmlValues(contents, "LastModified")[0]!),
+        sha256: null,
+      })
+    );
+
+    // Listings don't include metadata, so every object has to be read
+    if (options.withMetadata) {
+      for (let i = 0; i < objects.length; i += HEAD_CONCURRENCY) {
+        await Promise.all(
+          objects.slice(i, i + HEAD_CONCURRENCY).map(async (object, j) => {
+            const head = await this.head(object.key);
+            if (head) objects[i + j] = head;
+          })
+        );
+      }
+    }
+
+    const truncated = xmlValues(xml, "IsTruncated")[0] === "true";
+    return {
+      objects,
+      truncated,
+      cursor: truncated
+        ? xmlValues(xml, "NextContinuationToken")[0]
+        : undefined,
+    };
+  }
+
+  async createMultipartUpload(
+    key: string,
+    options?: { customMetadata?: Record<string, string> }
+  ) {
+    const res = await this.request(this.url(key, { uploads: "" }), {
+      method: "POST",
+      headers: this.metadataHeaders(options?.customMetadata),
+    });
+    const [uploadId] = xmlValues(await res.text(), "UploadId");
+    if (!uploadId) throw new Error("S3 didn't return an upload ID");
+    return this.resumeMultipartUpload(key, uploadId);
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string): StorageMultipartUpload {
+    return {
+      uploadId,
+      uploadPart: async (partNumber, value) => {
+        const res = await this.request(
+          this.url(key, { partNumber: String(partNumber), uploadId }),
+          { method: "PUT", body: value }
+        );
+        return { partNumber, etag: res.headers.get("etag") ?? "" };
+      },
+      complete: async (parts) => {
+        const body = `<CompleteMultipartUpload>${parts
+          .map(
+            (part) =>
+              `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${escapeXml(
+                part.etag
+              )}</ETag></Part>`
+          )
+          .join("")}</CompleteMultipartUpload>`;
+        const res = await this.request(this.url(key, { uploadId }), {
+          method: "POST",
+          body,
+        });
+        // Completing can fail after the response has started with a 200
+        const xml = await res.text();
+        if (xml.includes("<Error>"))
+          throw new Error(
+            `S3 failed to complete the upload: ${xmlValues(xml, "Message")[0]}`
+          );
+
+        const object = await this.head(key);
+        if (!object) throw new Error("Completed upload not found");
+        return object;
+      },
+      abort: async () => {
+        await this.request(this.url(key, { uploadId }), { method: "DELETE" });
+      },
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import type { AddressInfo } from "node:net";
+import { serve } from "@hono/node-server";
+import { app, type HonoCtx } from "./app";
+import { sweepExpiredPackages } from "./retention";
+import type { Storage } from "./storage";
+
+export { FileSystemStorage } from "./fs-storage";
+export { MemoryStorage } from "./memory-storage";
+export { S3Storage, type S3StorageOptions } from "./s3-storage";
+
+// Same schedule as the cron of the worker
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+export type ServerOptions = {
+  port: number;
+  hostname: string;
+  storage: Storage;
+  auth: NonNullable<HonoCtx["Bindings"]["AUTH"]>;
+};
+
+/**
+ * Runs the routes of the worker on Node, with any storage
+ */
+export async function startServer(options: ServerOptions) {
+  const env: HonoCtx["Bindings"] = {
+    STORAGE: options.storage,
+    AUTH: options.auth,
+  };
+
+  const sweep = () =>
+    sweepExpiredPackages(env.STORAGE).catch((error) =>
+      console.error("Failed to sweep expired packages:", error)
+    );
+  const interval = setInterval(sweep, SWEEP_INTERVAL);
+  interval.unref();
+
+  const server = await new Promise<ReturnType<typeof serve>>(
+    (resolve, reject) => {
+      const server = serve(
+        {
+          fetch: (request) => app.fetch(request, env),
+          port: options.port,
+          hostname: options.hostname,
+        },
+        () => resolve(server)
+      );
+      server.once("error", reject);
+    }
+  );
+
+  // The port is picked by the system when 0 is passed
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://${options.hostname.includes(":") ? `[${options.hostname}]` : options.hostname}:${port}`,
+    close: () => {
+      clearInterval(interval);
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import * as v from "valibot";
+import { Duration } from "./retention";
+import type { Storage } from "./storage";
+
+// Settings of a user or organization namespace
+export const Settings = v.object({
+  defaultTtl: v.optional(v.nullable(Duration)),
+  // Slug of the team allowed to publish to an organization, all members if unset
+  publishTeam: v.optional(
+    v.nullable(v.pipe(v.string(), v.regex(/^[a-z0-9_-]{1,100}$/)))
+  ),
+});
+export type Settings = v.InferOutput<typeof Settings>;
+
+const settingsKey = (namespace: string) =>
+  `preview-pkg-settings/${namespace}.json`;
+
+export async function getSettings(
+  storage: Storage,
+  namespace: string
+): Promise<Settings> {
+  const stored = await storage.get(settingsKey(namespace));
+  if (!stored) return {};
+  const parsed = v.safeParse(Settings, await stored.json().catch(() => null));
+  return parsed.success ? parsed.output : {};
+}
+
+export async function saveSettings(
+  storage: Storage,
+  namespace: string,
+  settings: Settings
+) {
+  await storage.put(settingsKey(namespace), JSON.stringify(settings), {
+    contentType: "application/json",
+  });
+}
@@ -0,0 +1,91 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Where packages and everything about them are stored. Routes only use this
+ * interface, see `R2Storage` for the worker, `S3Storage` for S3 compatible
+ * services, `FileSystemStorage` for `serve` and `MemoryStorage` for tests.
+ */
+export interface Storage {
+  head(key: string): Promise<StorageObject | null>;
+  get(key: string): Promise<StorageObjectBody | null>;
+  // Rejects with a `ChecksumMismatchError` if `sha256` doesn't match the value
+  put(
+    key: string,
+    value: ArrayBuffer | string,
+    options?: StoragePutOptions
+  ): Promise<StorageObject>;
+  delete(keys: string | string[]): Promise<void>;
+  list(options: StorageListOptions): Promise<StorageObjectList>;
+  createMultipartUpload(
+    key: string,
+    options?: { customMetadata?: Record<string, string> }
+  ): Promise<StorageMultipartUpload>;
+  resumeMultipartUpload(key: string, uploadId: string): StorageMultipartUpload;
+}
+
+export type StorageObject = {
+  key: string;
+  size: number;
+  uploaded: Date;
+  // Missing from listed objects unless `withMetadata` is set
+  customMetadata?: Record<string, string>;
+  // Hex encoded, null if the storage doesn't know it, e.g. for multipart uploads
+  sha256: string | null;
+};
+
+export type StorageObjectBody = StorageObject & {
+  // Only one of these can be used, the body is read once
+  body: ReadableStream<Uint8Array>;
+  text(): Promise<string>;
+  json<T>(): Promise<T>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+};
+
+export type StoragePutOptions = {
+  customMetadata?: Record<string, string>;
+  contentType?: string;
+  // Hex encoded checksum the value is verified against
+  sha256?: string;
+};
+
+export type StorageListOptions = {
+  prefix?: string;
+  cursor?: string;
+  // Also returns the custom metadata, which can take extra requests
+  withMetadata?: boolean;
+};
+
+export type StorageObjectList = {
+  objects: StorageObject[];
+  truncated: boolean;
+  cursor?: string;
+};
+
+export type StorageUploadedPart = { partNumber: number; etag: string };
+
+export type StorageMultipartUpload = {
+  uploadId: string;
+  uploadPart(
+    partNumber: number,
+    value: ArrayBuffer
+  ): Promise<StorageUploadedPart>;
+  // Parts are joined in the order given, the result isn't verified
+  complete(parts: StorageUploadedPart[]): Promise<StorageObject>;
+  abort(): Promise<void>;
+};
+
+export class ChecksumMismatchError extends Error {
+  constructor(key: string) {
+    super(`SHA-256 checksum of ${key} doesn't match the uploaded value`);
+    this.name = "ChecksumMismatchError";
+  }
+}
+
+// Values as `put` stores them
+export const encodeValue = (value: ArrayBuffer | string) =>
+  typeof value === "string"
+    ? new TextEncoder().encode(value)
+    : new Uint8Array(value);
+
+export const sha256Hex = (value: Uint8Array) =>
+  createHash("sha256").update(value).digest("hex");
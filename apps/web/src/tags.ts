@@ -0,0 +1,55 @@
+import { tagKey, type StorageKeyArgs } from "./keys";
+import { listAllObjects } from "./registry";
+import type { Storage } from "./storage";
+
+type TagArgs = Omit<StorageKeyArgs, "version">;
+
+/**
+ * Returns the version the tag currently points to, or null if it doesn't exist
+ */
+export async function resolveTag(
+  storage: Storage,
+  args: TagArgs,
+  tag: string
+): Promise<string | null> {
+  const object = await storage.head(tagKey({ ...args, version: tag }));
+  return object?.customMetadata?.version ?? null;
+}
+
+export async function setTag(
+  storage: Storage,
+  args: TagArgs,
+  tag: string,
+  version: string
+) {
+  await storage.put(tagKey({ ...args, version: tag }), version, {
+    customMetadata: { version },
+  });
+}
+
+export async function deleteTags(
+  storage: Storage,
+  args: TagArgs,
+  tags: string[]
+) {
+  if (tags.length === 0) return;
+  await storage.delete(tags.map((tag) => tagKey({ ...args, version: tag })));
+}
+
+/**
+ * Returns all tags of a package mapped to the versions they point to
+ */
+export async function listTags(
+  storage: Storage,
+  args: TagArgs
+): Promise<Record<string, string>> {
+  const prefix = tagKey({ ...args, version: "" });
+  const objects = await listAllObjects(storage, prefix);
+  return Object.fromEntries(
+    objects.flatMap((object) =>
+      object.customMetadata?.version
+        ? [[object.key.slice(prefix.length), object.customMetadata.version]]
+        : []
+    )
+  );
+}
@@ -0,0 +1,364 @@
+const BLOCK_SIZE = 512;
+
+export type TarEntry = {
+  // Path inside the package, with the leading `package/` directory stripped
+  path: string;
+  type: "file" | "directory" | "symlink" | "other";
+  size: number;
+  mode: number;
+  mtime: Date;
+};
+
+// Buffers chunks of a byte stream so the tar parser can read exact lengths
+class ChunkReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private chunks: Uint8Array[] = [];
+  private buffered = 0;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  private async fill(size: number) {
+    while (this.buffered < size) {
+      const { done, value } = await this.reader.read();
+      if (done) return false;
+      this.chunks.push(value);
+      this.buffered += value.byteLength;
+    }
+    return true;
+  }
+
+  async read(size: number): Promise<Uint8Array<ArrayBuffer> | null> {
+    if (!(await this.fill(size))) return null;
+    const out = new Uint8Array(size);
+    let offset = 0;
+    while (offset < size) {
+      const chunk = this.chunks[0];
+      const needed = size - offset;
+      if (chunk.byteLength <= needed) {
+        out.set(chunk, offset);
+        offset += chunk.byteLength;
+        this.chunks.shift();
+      } else {
+        out.set(chunk.subarray(0, needed), offset);
+        offset += needed;
+        this.chunks[0] = chunk.subarray(needed);
+      }
+    }
+    this.buffered -= size;
+    return out;
+  }
+
+  async skip(size: number): Promise<boolean> {
+    let remaining = size;
+    while (remaining > 0) {
+      if (!(await this.fill(1))) return false;
+      const chunk = this.chunks[0];
+      if (chunk.byteLength <= remaining) {
+        remaining -= chunk.byteLength;
+        this.buffered -= chunk.byteLength;
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = chunk.subarray(remaining);
+        this.buffered -= remaining;
+        remaining = 0;
+      }
+    }
+    return true;
+  }
+
+  async cancel() {
+    await this.reader.cancel().catch(() => {});
+  }
+}
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+const readString = (block: Uint8Array, offset: number, length: number) => {
+  const bytes = block.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+const readOctal = (block: Uint8Array, offset: number, length: number) =>
+  parseInt(readString(block, offset, length).trim() || "0", 8);
+
+const writeString = (
+  block: Uint8Array,
+  offset: number,
+  length: number,
+  value: string
+) => {
+  block.fill(0, offset, offset + length);
+  block.set(encoder.encode(value).subarray(0, length), offset);
+};
+
+const writeOctal = (
+  block: Uint8Array,
+  offset: number,
+  length: number,
+  value: number
+) =>
+  writeString(
+    block,
+    offset,
+    length,
+    value.toString(8).padStart(length - 1, "0")
+  );
+
+// The checksum is calculated with its own field filled with spaces
+const writeChecksum = (block: Uint8Array) => {
+  block.fill(0x20, 148, 156);
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  writeString(block, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+};
+
+const paddedSize = (size: number) => Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+const parsePaxHeaders = (data: Uint8Array) => {
+  const headers: Record<string, string> = {};
+  for (const record of decoder.decode(data).split("\n")) {
+    const match = record.match(/^\d+ ([^=]+)=(.*)$/);
+    if (match) headers[match[1]] = match[2];
+  }
+  return headers;
+};
+
+const entryType = (flag: string): TarEntry["type"] => {
+  if (flag === "0" || flag === "" || flag === "7") return "file";
+  if (flag === "5") return "directory";
+  if (flag === "2") return "symlink";
+  return "other";
+};
+
+// Same as npm, we strip the first path segment no matter what it is called
+const stripRoot = (path: string) => path.replace(/^\.?\/?[^/]*\/?/, "");
+
+/**
+ * Iterates over the entries of a gzipped tarball, calling `onEntry` for every
+ * entry. Call `read` to get the contents of the current entry, and return
+ * `"stop"` to stop reading the stream early.
+ */
+export async function walkTarball(
+  body: ReadableStream,
+  onEntry: (
+    entry: TarEntry,
+    read: () => Promise<Uint8Array>
+  ) => Promise<void | "stop"> | void | "stop"
+): Promise<void> {
+  const reader = new ChunkReader(
+    body.pipeThrough(new DecompressionStream("gzip"))
+  );
+
+  let pax: Record<string, string> = {};
+  let longName: string | null = null;
+
+  try {
+    while (true) {
+      const header = await reader.read(BLOCK_SIZE);
+      if (!header || header.every((byte) => byte === 0)) return;
+
+      const flag = readString(header, 156, 1);
+      const size = pax.size ? Number(pax.size) : readOctal(header, 124, 12);
+
+      // Extended headers describe the entry that follows them
+      if (flag === "x" || flag === "g" || flag === "L") {
+        const data = await reader.read(paddedSize(size));
+        if (!data) throw new Error("Unexpected end of tarball");
+        if (flag === "x") pax = parsePaxHeaders(data.subarray(0, size));
+        if (flag === "L") longName = readString(data, 0, size);
+        continue;
+      }
+
+      const name = readString(header, 0, 100);
+      const prefix =
+        readString(header, 257, 6) === "ustar"
+          ? readString(header, 345, 155)
+          : "";
+      const path =
+        pax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+
+      const entry: TarEntry = {
+        path: stripRoot(path),
+        type: entryType(flag),
+        size,
+        mode: readOctal(header, 100, 8),
+        mtime: new Date(readOctal(header, 136, 12) * 1000),
+      };
+      pax = {};
+      longName = null;
+
+      let consumed = false;
+      const result = await onEntry(entry, async () => {
+        if (consumed) throw new Error("Tarball entry was already read");
+        consumed = true;
+        const data = await reader.read(paddedSize(size));
+        if (!data) throw new Error("Unexpected end of tarball");
+        return data.subarray(0, size);
+      });
+
+      if (result === "stop") return;
+      if (!consumed && !(await reader.skip(paddedSize(size))))
+        throw new Error("Unexpected end of tarball");
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
+
+/**
+ * Lists the regular files of a gzipped tarball, sorted by path
+ */
+export async function listTarballFiles(
+  body: ReadableStream
+): Promise<TarEntry[]> {
+  const files: TarEntry[] = [];
+  await walkTarball(body, (entry) => {
+    if (entry.type === "file") files.push(entry);
+  });
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Replaces the contents of a file in a gzipped tarball, every other entry is
+ * copied as is. Entries are read one at a time, so large tarballs aren't held
+ * in memory
+ */
+export function replaceTarballFile(
+  body: ReadableStream,
+  path: string,
+  contents: Uint8Array<ArrayBuffer>
+): ReadableStream<Uint8Array> {
+  const reader = new ChunkReader(
+    body.pipeThrough(new DecompressionStream("gzip"))
+  );
+  const { readable, writable } = new TransformStream<
+    Uint8Array<ArrayBuffer>,
+    Uint8Array<ArrayBuffer>
+  >();
+  const writer = writable.getWriter();
+
+  const copy = async () => {
+    // Extended headers are held back until we know which entry they describe
+    let extended: Uint8Array<ArrayBuffer>[] = [];
+    let pax: Record<string, string> = {};
+    let longName: string | null = null;
+
+    while (true) {
+      const header = await reader.read(BLOCK_SIZE);
+      if (!header) throw new Error("Unexpected end of tarball");
+      if (header.every((byte) => byte === 0)) break;
+
+      const flag = readString(header, 156, 1);
+      const size = pax.size ? Number(pax.size) : readOctal(header, 124, 12);
+      const data = await reader.read(paddedSize(size));
+      if (!data) throw new Error("Unexpected end of tarball");
+
+      // Global headers describe every entry after them, not just the next one
+      if (flag === "g") {
+        await writer.write(header);
+        await writer.write(data);
+        continue;
+      }
+      if (flag === "x" || flag === "L") {
+        extended.push(header, data);
+        if (flag === "x") pax = parsePaxHeaders(data.subarray(0, size));
+        if (flag === "L") longName = readString(data, 0, size);
+        continue;
+      }
+
+      const name = readString(header, 0, 100);
+      const prefix =
+        readString(header, 257, 6) === "ustar"
+          ? readString(header, 345, 155)
+          : "";
+      const entryPath = stripRoot(
+        pax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name)
+      );
+
+      if (entryType(flag) === "file" && entryPath === path) {
+        // Extended headers of the entry are dropped, they may override its
+        // size, and the path is the one npm uses
+        const replaced = header.slice();
+        writeString(replaced, 0, 100, `package/${path}`);
+        if (prefix) writeString(replaced, 345, 155, "");
+        writeOctal(replaced, 124, 12, contents.byteLength);
+        writeChecksum(replaced);
+        await writer.write(replaced);
+        await writer.write(contents);
+        await writer.write(
+          new Uint8Array(paddedSize(contents.byteLength) - contents.byteLength)
+        );
+      } else {
+        for (const block of extended) await writer.write(block);
+        await writer.write(header);
+        await writer.write(data);
+      }
+
+      extended = [];
+      pax = {};
+      longName = null;
+    }
+
+    // Tarballs end with two empty blocks
+    await writer.write(new Uint8Array(BLOCK_SIZE * 2));
+    await writer.close();
+  };
+
+  copy()
+    // Aborting fails if the reading side was canceled, there's nobody to tell
+    .catch((error) => writer.abort(error).catch(() => {}))
+    .finally(() => reader.cancel());
+
+  return readable.pipeThrough(new CompressionStream("gzip"));
+}
+
+const README = /^readme(\.(md|markdown|txt))?$/i;
+// READMEs larger than this aren't shown, they are likely generated
+const MAX_README_SIZE = 1024 * 512;
+
+/**
+ * Lists the files of a gzipped tarball and reads its README along the way,
+ * every file is counted but only the first `limit` are returned
+ */
+export async function inspectContents(
+  body: ReadableStream,
+  limit: number
+): Promise<{ files: TarEntry[]; fileCount: number; readme: string | null }> {
+  const files: TarEntry[] = [];
+  let fileCount = 0;
+  let readme: string | null = null;
+
+  await walkTarball(body, async (entry, read) => {
+    if (entry.type !== "file") return;
+    fileCount++;
+    if (files.length < limit) files.push(entry);
+    if (
+      readme === null &&
+      README.test(entry.path) &&
+      entry.size <= MAX_README_SIZE
+    )
+      readme = decoder.decode(await read());
+  });
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { files, fileCount, readme };
+}
+
+/**
+ * Reads a single file from a gzipped tarball, returns null if it doesn't exist
+ */
+export async function readTarballFile(
+  body: ReadableStream,
+  path: string
+): Promise<Uint8Array | null> {
+  let contents: Uint8Array | null = null;
+  await walkTarball(body, async (entry, read) => {
+    if (entry.type !== "file" || entry.path !== path) return;
+    contents = await read();
+    return "stop";
+  });
+  return contents;
+}
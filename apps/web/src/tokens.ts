@@ -0,0 +1,86 @@
+import { listAllObjects } from "./registry";
+import type { Storage } from "./storage";
+
+// Read tokens grant download access to private packages of a single namespace,
+// only their SHA-256 hash is stored
+const TOKEN_PREFIX = "ppk_";
+
+const tokenKey = (namespace: string, hash: string) =>
+  `preview-pkg-tokens/${namespace}/${hash}`;
+
+const hashToken = async (token: string) =>
+  Buffer.from(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token))
+  ).toString("hex");
+
+export type ReadToken = {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+};
+
+export const isReadToken = (token: string) => token.startsWith(TOKEN_PREFIX);
+
+export async function createReadToken(
+  storage: Storage,
+  namespace: string,
+  name: string,
+  createdBy: string
+): Promise<ReadToken & { token: string }> {
+  const token = `${TOKEN_PREFIX}${Buffer.from(
+    crypto.getRandomValues(new Uint8Array(32))
+  ).toString("base64url")}`;
+  const hash = await hashToken(token);
+
+  const readToken: ReadToken = {
+    id: hash.slice(0, 16),
+    name,
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  await storage.put(tokenKey(namespace, hash), "", {
+    customMetadata: readToken,
+  });
+  return { ...readToken, token };
+}
+
+export async function verifyReadToken(
+  storage: Storage,
+  namespace: string,
+  token: string
+): Promise<boolean> {
+  if (!isReadToken(token)) return false;
+  const object = await storage.head(
+    tokenKey(namespace, await hashToken(token))
+  );
+  return object !== null;
+}
+
+export async function listReadTokens(
+  storage: Storage,
+  namespace: string
+): Promise<ReadToken[]> {
+  const objects = await listAllObjects(storage, tokenKey(namespace, ""));
+  return objects.map((object) => ({
+    id: object.customMetadata?.id ?? "",
+    name: object.customMetadata?.name ?? "",
+    createdBy: object.customMetadata?.createdBy ?? "",
+    createdAt: object.customMetadata?.createdAt ?? "",
+  }));
+}
+
+/**
+ * Revokes the token with the given id, returns false if it doesn't exist
+ */
+export async function revokeReadToken(
+  storage: Storage,
+  namespace: string,
+  id: string
+): Promise<boolean> {
+  const objects = await listAllObjects(storage, tokenKey(namespace, ""));
+  const object = objects.find((o) => o.customMetadata?.id === id);
+  if (!object) return false;
+  await storage.delete(object.key);
+  return true;
+}
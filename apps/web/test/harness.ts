@@ -0,0 +1,380 @@
+import { createHash } from "node:crypto";
+import { gzipSync } from "node:zlib";
+import { vi } from "vitest";
+import { app, type HonoCtx } from "../src/app";
+import { MemoryStorage } from "../src/memory-storage";
+
+const BLOCK_SIZE = 512;
+
+export type GithubMock = {
+  // Login of the user behind each token
+  users: Record<string, string>;
+  // Roles in organizations, keyed by organization and login
+  memberships?: Record<string, Record<string, "admin" | "member">>;
+  // OAuth scopes of each token, tokens without them act like fine-grained ones
+  scopes?: Record<string, string[]>;
+};
+
+/**
+ * Answers the GitHub API requests the app makes, every other request goes
+ * through. Stubs are removed after each test, see `unstubGlobals`.
+ */
+export function mockGithub({
+  users,
+  memberships = {},
+  scopes = {},
+}: GithubMock) {
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal(
+    "fetch",
+    async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      const url = new URL(request.url);
+      if (url.origin !== "https://api.github.com")
+        return realFetch(input, init);
+
+      const token = request.headers
+        .get("authorization")
+        ?.replace(/^(bearer|token)\s+/i, "");
+      const login = token ? users[token] : undefined;
+      if (!login)
+        return Response.json({ message: "Bad credentials" }, { status: 401 });
+      if (url.pathname === "/user")
+        return Response.json(
+          { login },
+          scopes[token!]
+            ? { headers: { "X-OAuth-Scopes": scopes[token!]!.join(", ") } }
+            : {}
+        );
+
+      const org = url.pathname.match(/^\/user\/memberships\/orgs\/([^/]+)$/);
+      if (org && scopes[token!] && !scopes[token!]!.includes("read:org"))
+        return Response.json(
+          { message: "Resource not accessible by integration" },
+          { status: 403 }
+        );
+      const role = org ? memberships[org[1]!]?.[login] : undefined;
+      if (role) return Response.json({ state: "active", role });
+      return Response.json({ message: "Not Found" }, { status: 404 });
+    }
+  );
+}
+
+type S3Object = {
+  body: Uint8Array;
+  headers: Record<string, string>;
+  uploaded: Date;
+  // Base64, multipart uploads get a composite checksum like `<checksum>-3`
+  checksum: string;
+  composite: boolean;
+};
+
+const xmlResponse = (xml: string, status = 200) =>
+  new Response(`<?xml version="1.0" encoding="UTF-8"?>\n${xml}`, {
+    status,
+    headers: { "Content-Type": "application/xml" },
+  });
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const s3Error = (status: number, code: string, message: string) =>
+  xmlResponse(
+    `<Error><Code>${code}</Code><Message>${message}</Message><RequestId>4442587FB7D0A2F9</RequestId></Error>`,
+    status
+  );
+
+const base64Sha256 = (value: Uint8Array) =>
+  createHash("sha256").update(value).digest("base64");
+
+/**
+ * Answers requests to `endpoint` like an S3 bucket, with responses shaped like
+ * the ones S3 sends. Every other request goes through. `respond` can answer a
+ * request before the bucket does, e.g. with an error S3 sends rarely.
+ */
+export function mockS3(
+  endpoint: string,
+  bucket: string,
+  respond?: (request: Request) => Response | undefined
+) {
+  const objects = new Map<string, S3Object>();
+  const uploads = new Map<
+    string,
+    {
+      key: string;
+      headers: Record<string, string>;
+      parts: Map<number, Uint8Array>;
+    }
+  >();
+  const requests: Request[] = [];
+  let nextUploadId = 1;
+
+  const etag = (value: Uint8Array) =>
+    `"${createHash("md5").update(value).digest("hex")}"`;
+
+  const objectHeaders = (object: S3Object, checksums: boolean) => ({
+    "Content-Length": String(object.body.length),
+    "Last-Modified": object.uploaded.toUTCString(),
+    ETag: etag(object.body),
+    ...object.headers,
+    ...(checksums
+      ? {
+          "x-amz-checksum-sha256": object.checksum,
+          "x-amz-checksum-type": object.composite ? "COMPOSITE" : "FULL_OBJECT",
+        }
+      : {}),
+  });
+
+  const handle = async (request: Request) => {
+    const url = new URL(request.url);
+    const path = url.pathname.slice(bucket.length + 2);
+    const key = path.split("/").map(decodeURIComponent).join("/");
+    const query = url.searchParams;
+    const uploadId = query.get("uploadId");
+    const body = new Uint8Array(await request.arrayBuffer());
+    // Custom metadata and content type are kept as they were sent
+    const storedHeaders = Object.fromEntries(
+      [...request.headers].filter(
+        ([name]) => name.startsWith("x-amz-meta-") || name === "content-type"
+      )
+    );
+
+    if (uploadId) {
+      const upload = uploads.get(uploadId);
+      if (!upload || upload.key !== key)
+        return s3Error(
+          404,
+          "NoSuchUpload",
+          "The specified upload does not exist. The upload ID may be invalid, or the upload may have been aborted or completed."
+        );
+
+      if (request.method === "PUT") {
+        upload.parts.set(Number(query.get("partNumber")), body);
+        return new Response(null, { headers: { ETag: etag(body) } });
+      }
+      if (request.method === "DELETE") {
+        uploads.delete(uploadId);
+        return new Response(null, { status: 204 });
+      }
+
+      const xml = new TextDecoder().decode(body);
+      const parts = [
+        ...xml.matchAll(
+          /<Part><PartNumber>(\d+)<\/PartNumber><ETag>(.*?)<\/ETag><\/Part>/g
+        ),
+      ].map(([, partNumber, tag]) => ({
+        data: upload.parts.get(Number(partNumber)),
+        etag: tag!.replace(/&quot;/g, '"'),
+      }));
+      if (parts.some(({ data, etag: tag }) => !data || etag(data) !== tag))
+        return s3Error(
+          400,
+          "InvalidPart",
+          "One or more of the specified parts could not be found.  The part may not have been uploaded, or the specified entity tag may not match the part's entity tag."
+        );
+
+      const joined = new Uint8Array(
+        parts.reduce((size, { data }) => size + data!.length, 0)
+      );
+      let offset = 0;
+      for (const { data } of parts) {
+        joined.set(data!, offset);
+        offset += data!.length;
+      }
+      objects.set(key, {
+        body: joined,
+        headers: upload.headers,
+        uploaded: new Date(),
+        checksum: `${base64Sha256(joined)}-${parts.length}`,
+        composite: true,
+      });
+      uploads.delete(uploadId);
+      return xmlResponse(
+        `<CompleteMultipartUploadResult><Bucket>${bucket}</Bucket><Key>${escapeXml(key)}</Key><ETag>${etag(joined)}</ETag></CompleteMultipartUploadResult>`
+      );
+    }
+
+    if (request.method === "POST" && query.has("uploads")) {
+      const id = `upload-${nextUploadId++}`;
+      uploads.set(id, { key, headers: storedHeaders, parts: new Map() });
+      return xmlResponse(
+        `<InitiateMultipartUploadResult><Bucket>${bucket}</Bucket><Key>${escapeXml(key)}</Key><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`
+      );
+    }
+
+    if (request.method === "POST" && query.has("delete")) {
+      if (!request.headers.has("x-amz-checksum-sha256"))
+        return s3Error(
+          400,
+          "InvalidRequest",
+          "Missing required header for this request: Content-MD5"
+        );
+      const xml = new TextDecoder().decode(body);
+      for (const [, escaped] of xml.matchAll(/<Key>(.*?)<\/Key>/g))
+        objects.delete(
+          escaped!
+            .replace(/&lt;/g, "<")
+            .replace(/&gt;/g, ">")
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, "&")
+        );
+      return xmlResponse(
+        `<DeleteResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/"></DeleteResult>`
+      );
+    }
+
+    if (request.method === "GET" && query.get("list-type") === "2") {
+      const prefix = query.get("prefix") ?? "";
+      const start = Number(query.get("continuation-token") ?? 0);
+      const keys = [...objects.keys()]
+        .filter((name) => name.startsWith(prefix))
+        .sort();
+      const page = keys.slice(start, start + 1000);
+      const truncated = start + 1000 < keys.length;
+      return xmlResponse(
+        `<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Name>${bucket}</Name><Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount><MaxKeys>1000</MaxKeys><IsTruncated>${truncated}</IsTruncated>${page
+          .map((name) => {
+            const object = objects.get(name)!;
+            return `<Contents><Key>${escapeXml(name)}</Key><LastModified>${object.uploaded.toISOString()}</LastModified><ETag>&quot;${etag(object.body).slice(1, -1)}&quot;</ETag><Size>${object.body.length}</Size><StorageClass>STANDARD</StorageClass></Contents>`;
+          })
+          .join("")}${
+          truncated
+            ? `<NextContinuationToken>${start + 1000}</NextContinuationToken>`
+            : ""
+        }</ListBucketResult>`
+      );
+    }
+
+    if (request.method === "PUT") {
+      const checksum = request.headers.get("x-amz-checksum-sha256");
+      if (checksum && checksum !== base64Sha256(body))
+        return s3Error(
+          400,
+          "BadDigest",
+          "The SHA256 you specified did not match the calculated checksum."
+        );
+      objects.set(key, {
+        body,
+        headers: storedHeaders,
+        uploaded: new Date(),
+        checksum: base64Sha256(body),
+        composite: false,
+      });
+      return new Response(null, { headers: { ETag: etag(body) } });
+    }
+
+    if (request.method === "DELETE") {
+      objects.delete(key);
+      return new Response(null, { status: 204 });
+    }
+
+    const object = objects.get(key);
+    const checksums = request.headers.get("x-amz-checksum-mode") === "ENABLED";
+    if (request.method === "HEAD")
+      return object
+        ? new Response(null, { headers: objectHeaders(object, checksums) })
+        : new Response(null, { status: 404 });
+    return object
+      ? new Response(Uint8Array.from(object.body), {
+          headers: objectHeaders(object, checksums),
+        })
+      : s3Error(404, "NoSuchKey", "The specified key does not exist.");
+  };
+
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal(
+    "fetch",
+    async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      if (!request.url.startsWith(`${endpoint}/${bucket}/`))
+        return realFetch(input, init);
+
+      requests.push(request);
+      if (!request.headers.get("authorization")?.startsWith("AWS4-HMAC-SHA256"))
+        return s3Error(403, "AccessDenied", "Access Denied");
+      return respond?.(request) ?? handle(request);
+    }
+  );
+
+  return { objects, requests };
+}
+
+/**
+ * Runs the routes against a fresh in-memory storage
+ */
+export function createTestApp(bindings: Partial<HonoCtx["Bindings"]> = {}) {
+  const storage = new MemoryStorage();
+  const env: HonoCtx["Bindings"] = { STORAGE: storage, ...bindings };
+  return {
+    storage,
+    request: (path: string, init?: RequestInit) => app.request(path, init, env),
+  };
+}
+
+export type TestApp = ReturnType<typeof createTestApp>;
+
+/**
+ * Builds a gzipped tarball like `npm pack` does, every file is put in the
+ * `package/` directory
+ */
+export function createTarball(files: Record<string, string>) {
+  const blocks: Buffer[] = [];
+  for (const [path, contents] of Object.entries(files)) {
+    const data = Buffer.from(contents);
+    const header = Buffer.alloc(BLOCK_SIZE);
+    header.write(`package/${path}`, 0, 100);
+    header.write("0000644", 100);
+    header.write("0000000", 108);
+    header.write("0000000", 116);
+    header.write(data.length.toString(8).padStart(11, "0"), 124);
+    header.write("00000000000", 136);
+    header.write("0", 156);
+    header.write("ustar\u000000", 257);
+    // The checksum is calculated with its own field filled with spaces
+    header.write(" ".repeat(8), 148);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, "0")}\u0000 `, 148);
+
+    const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    blocks.push(header, data, Buffer.alloc(padding));
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+export const sha256 = (value: Uint8Array) =>
+  createHash("sha256").update(value).digest("hex");
+
+export type PublishOptions = {
+  token?: string;
+  sha256?: string;
+  ttl?: string;
+  private?: boolean;
+};
+
+/**
+ * Publishes a tarball the way the CLI does for packages up to 10MB
+ */
+export function publish(
+  testApp: TestApp,
+  path: string,
+  tarball: Uint8Array,
+  options: PublishOptions = {}
+) {
+  const body = new FormData();
+  body.set("tarball", new Blob([Uint8Array.from(tarball)]), "package.tgz");
+  body.set("sha256", options.sha256 ?? sha256(tarball));
+  if (options.ttl) body.set("ttl", options.ttl);
+  if (options.private) body.set("private", "true");
+
+  return testApp.request(path, {
+    method: "POST",
+    body,
+    headers: options.token ? { Authorization: `Bearer ${options.token}` } : {},
+  });
+}
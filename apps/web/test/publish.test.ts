@@ -0,0 +1,404 @@
+import { createHash } from "node:crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createTarball,
+  createTestApp,
+  mockGithub,
+  publish,
+  sha256,
+  type TestApp,
+} from "./harness";
+
+const manifest = (name: string) =>
+  JSON.stringify({ name, version: "1.0.0", main: "index.js" });
+
+let testApp: TestApp;
+beforeEach(() => {
+  testApp = createTestApp();
+  mockGithub({
+    users: { "alice-token": "alice", "bob-token": "bob" },
+    memberships: { acme: { alice: "member" } },
+  });
+});
+
+describe("package params", () => {
+  it("stores scoped packages under their organization", async () => {
+    const tarball = createTarball({ "package.json": manifest("@acme/ui") });
+    const res = await publish(testApp, "/alice/@acme/ui@abc1234", tarball, {
+      token: "alice-token",
+    });
+    expect(res.status).toBe(201);
+
+    const object = await testApp.storage.head(
+      "preview-pkg/alice/@acme__ui@abc1234"
+    );
+    expect(object?.customMetadata).toMatchObject({
+      org: "acme",
+      packageName: "ui",
+      version: "abc1234",
+      sha256: sha256(tarball),
+      publishedBy: "alice",
+    });
+  });
+
+  it("stores unscoped packages without an organization", async () => {
+    const tarball = createTarball({ "package.json": manifest("utils") });
+    const res = await publish(testApp, "/alice/utils@abc1234", tarball, {
+      token: "alice-token",
+    });
+    expect(res.status).toBe(201);
+
+    const object = await testApp.storage.head(
+      "preview-pkg/alice/utils@abc1234"
+    );
+    expect(object?.customMetadata).toMatchObject({
+      org: "",
+      packageName: "utils",
+    });
+  });
+
+  it.each([
+    ["a missing version", "/alice/utils"],
+    ["uppercase names", "/alice/Utils@abc1234"],
+    ["uppercase versions", "/alice/utils@ABC"],
+    ["uppercase organizations", "/alice/@Acme/ui@abc1234"],
+    ["invalid usernames", "/al_ice/utils@abc1234"],
+  ])("rejects %s", async (_, path) => {
+    const tarball = createTarball({ "package.json": manifest("utils") });
+    const res = await publish(testApp, path, tarball, { token: "alice-token" });
+    expect(res.status).toBe(400);
+    expect(testApp.storage.objects.size).toBe(0);
+  });
+});
+
+describe("authorization", () => {
+  const tarball = createTarball({ "package.json": manifest("utils") });
+
+  it("requires a GitHub token", async () => {
+    const res = await publish(testApp, "/alice/utils@abc1234", tarball);
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects invalid tokens", async () => {
+    const res = await publish(testApp, "/alice/utils@abc1234", tarball, {
+      token: "invalid",
+    });
+    expect(res.status).toBe(401);
+  });
+
+  it("only lets users publish to their own namespace", async () => {
+    const res = await publish(testApp, "/alice/utils@abc1234", tarball, {
+      token: "bob-token",
+    });
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({
+      error: expect.stringContaining("logged in as bob"),
+    });
+  });
+
+  it("lets members publish to their organization", async () => {
+    const res = await publish(testApp, "/acme/utils@abc1234", tarball, {
+      token: "alice-token",
+    });
+    expect(res.status).toBe(201);
+  });
+
+  it("asks to log in again when the token can't read organizations", async () => {
+    mockGithub({
+      users: { "old-token": "alice", "new-token": "alice" },
+      memberships: { acme: { alice: "member" } },
+      scopes: { "old-token": ["user:email"], "new-token": ["read:org"] },
+    });
+
+    const res = await publish(testApp, "/acme/utils@abc1234", tarball, {
+      token: "old-token",
+    });
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({
+      error: expect.stringContaining("read:org"),
+    });
+
+    const loggedInAgain = await publish(
+      testApp,
+      "/acme/utils@abc1234",
+      tarball,
+      { token: "new-token" }
+    );
+    expect(loggedInAgain.status).toBe(201);
+  });
+
+  it("publishes anything without authentication", async () => {
+    testApp = createTestApp({ AUTH: "none" });
+    const res = await publish(testApp, "/anyone/utils@abc1234", tarball);
+    expect(res.status).toBe(201);
+  });
+});
+
+describe("conflicts", () => {
+  const path = "/alice/utils@abc1234";
+  const key = "preview-pkg/alice/utils@abc1234";
+  const tarball = createTarball({ "package.json": manifest("utils") });
+
+  it("returns the checksum of the published package", async () => {
+    await publish(testApp, path, tarball, { token: "alice-token" });
+    const other = createTarball({ "package.json": manifest("other") });
+
+    const res = await publish(testApp, path, other, { token: "alice-token" });
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({
+      error: "Package utils@abc1234 already exists",
+      sha256: sha256(tarball),
+    });
+    expect((await testApp.storage.head(key))?.sha256).toBe(sha256(tarball));
+  });
+
+  it("conflicts when publishing the same package again", async () => {
+    await publish(testApp, path, tarball, { token: "alice-token" });
+    const res = await publish(testApp, path, tarball, { token: "alice-token" });
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ sha256: sha256(tarball) });
+  });
+
+  it("replaces expired packages", async () => {
+    await publish(testApp, path, tarball, { token: "alice-token" });
+    testApp.storage.objects.get(key)!.object.customMetadata.expiresAt =
+      new Date(Date.now() - 1000).toISOString();
+
+    const other = createTarball({ "package.json": manifest("other") });
+    const res = await publish(testApp, path, other, { token: "alice-token" });
+    expect(res.status).toBe(201);
+    expect((await testApp.storage.head(key))?.sha256).toBe(sha256(other));
+  });
+});
+
+describe("checksums", () => {
+  it("rejects tarballs not matching their checksum", async () => {
+    const tarball = createTarball({ "package.json": manifest("utils") });
+    const res = await publish(testApp, "/alice/utils@abc1234", tarball, {
+      token: "alice-token",
+      sha256: "0".repeat(64),
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "Invalid SHA-256 checksum" });
+    expect(
+      await testApp.storage.head("preview-pkg/alice/utils@abc1234")
+    ).toBeNull();
+  });
+});
+
+describe("tarballs", () => {
+  it.each([
+    ["bodies that aren't gzipped", new TextEncoder().encode("not a tarball")],
+    ["tarballs without a package.json", createTarball({ "index.js": "" })],
+  ])("rejects %s before storing anything", async (_, tarball) => {
+    const res = await publish(testApp, "/alice/utils@abc1234", tarball, {
+      token: "alice-token",
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: "Package must be a gzipped tarball with a package.json",
+    });
+    expect(testApp.storage.objects.size).toBe(0);
+  });
+});
+
+describe("multipart uploads", () => {
+  const path = "/alice/-/uploads/utils@abc1234";
+  const headers = {
+    Authorization: "Bearer alice-token",
+    "Content-Type": "application/json",
+  };
+  const tarball = createTarball({
+    "package.json": manifest("utils"),
+    "index.js": "export const value = 1;\n".repeat(50),
+  });
+  // Parts of a few bytes, the size limits are up to the storage
+  const bytes = new Uint8Array(tarball);
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  for (let i = 0; i * 100 < bytes.length; i++)
+    parts.push(bytes.slice(i * 100, (i + 1) * 100));
+
+  const createUpload = (
+    uploaded: Uint8Array<ArrayBuffer>[] = parts,
+    options: Record<string, unknown> = {}
+  ) =>
+    testApp.request(path, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        sha256: sha256(tarball),
+        size: tarball.length,
+        parts: uploaded.map(sha256),
+        ...options,
+      }),
+    });
+
+  const uploadPart = (
+    uploadId: string,
+    partNumber: number,
+    body: Uint8Array<ArrayBuffer>
+  ) =>
+    testApp.request(`${path}?uploadId=${uploadId}&partNumber=${partNumber}`, {
+      method: "PUT",
+      headers: {
+        Authorization: headers.Authorization,
+        "Content-Length": String(body.length),
+      },
+      body,
+    });
+
+  const completeUpload = (uploadId: string, uploaded: unknown[]) =>
+    testApp.request(`${path}?uploadId=${uploadId}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ parts: uploaded }),
+    });
+
+  const startUpload = async (
+    ...args: Parameters<typeof createUpload>
+  ): Promise<string> => {
+    const created = await createUpload(...args);
+    expect(created.status).toBe(201);
+    return ((await created.json()) as { uploadId: string }).uploadId;
+  };
+
+  // Uploads every part and completes the upload
+  const uploadAll = async (
+    uploadId: string,
+    uploaded: Uint8Array<ArrayBuffer>[]
+  ) => {
+    const etags = [];
+    for (const [i, part] of uploaded.entries()) {
+      const res = await uploadPart(uploadId, i + 1, part);
+      expect(res.status).toBe(200);
+      etags.push(await res.json());
+    }
+    return completeUpload(uploadId, etags);
+  };
+
+  it("joins the parts in order", async () => {
+    const uploadId = await startUpload();
+    const res = await uploadAll(uploadId, parts);
+    expect(res.status).toBe(201);
+
+    const stored = await testApp.storage.get("preview-pkg/alice/utils@abc1234");
+    expect(new Uint8Array(await stored!.arrayBuffer())).toEqual(
+      new Uint8Array(tarball)
+    );
+    expect(stored?.customMetadata?.sha256).toBe(sha256(tarball));
+    const metadata = await testApp.storage.get(
+      "preview-pkg-metadata/alice/utils@abc1234"
+    );
+    // Registry metadata is read from the completed package
+    expect(await metadata!.json()).toEqual({
+      manifest: JSON.parse(manifest("utils")),
+      shasum: createHash("sha1").update(tarball).digest("hex"),
+      integrity: `sha512-${createHash("sha512").update(tarball).digest("base64")}`,
+    });
+    // The upload state is removed once it's completed
+    expect([...testApp.storage.objects.keys()]).not.toContainEqual(
+      expect.stringMatching(/^preview-pkg-uploads\//)
+    );
+  });
+
+  it("rejects parts not matching their checksum", async () => {
+    const uploadId = await startUpload();
+    const res = await uploadPart(uploadId, 1, parts[1]!);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: "Invalid SHA-256 checksum of part 1",
+    });
+  });
+
+  it("rejects parts that weren't announced", async () => {
+    const uploadId = await startUpload();
+    const res = await uploadPart(uploadId, parts.length + 1, parts[0]!);
+    expect(res.status).toBe(400);
+  });
+
+  it("can't be completed with missing parts", async () => {
+    const uploadId = await startUpload();
+    const first = await uploadPart(uploadId, 1, parts[0]!);
+
+    const res = await completeUpload(uploadId, [await first.json()]);
+    expect(res.status).toBe(400);
+    expect(
+      await testApp.storage.head("preview-pkg/alice/utils@abc1234")
+    ).toBeNull();
+  });
+
+  it.each([
+    {
+      name: "the announced checksum",
+      uploaded: parts.slice(0, -1),
+      options: {
+        size: tarball.length - parts.at(-1)!.length,
+      },
+      error: "Invalid SHA-256 checksum",
+    },
+    {
+      name: "the announced size",
+      uploaded: parts,
+      options: { size: tarball.length - 1 },
+      error: `Package must be ${tarball.length - 1} bytes as announced`,
+    },
+    {
+      name: "a package tarball",
+      uploaded: [new TextEncoder().encode("not a tarball")],
+      options: {
+        sha256: sha256(new TextEncoder().encode("not a tarball")),
+        size: 13,
+      },
+      error: "Package must be a gzipped tarball with a package.json",
+    },
+  ])(
+    "deletes packages that aren't $name",
+    async ({ uploaded, options, error }) => {
+      const uploadId = await startUpload(uploaded, options);
+      const res = await uploadAll(uploadId, uploaded);
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error });
+      expect(testApp.storage.objects.size).toBe(0);
+    }
+  );
+
+  it("saves the provenance once the upload is complete", async () => {
+    const provenance = JSON.stringify({
+      subject: { name: "utils", version: "abc1234", sha256: sha256(tarball) },
+      git: null,
+    });
+    const provenanceKey = "preview-pkg-provenance/alice/utils@abc1234";
+
+    const aborted = await startUpload(parts, { provenance });
+    await testApp.request(`${path}?uploadId=${aborted}`, {
+      method: "DELETE",
+      headers,
+    });
+    expect(testApp.storage.objects.size).toBe(0);
+
+    const uploadId = await startUpload(parts, { provenance });
+    expect(await testApp.storage.head(provenanceKey)).toBeNull();
+    expect((await uploadAll(uploadId, parts)).status).toBe(201);
+    expect(await testApp.storage.head(provenanceKey)).not.toBeNull();
+  });
+
+  it("removes the upload state when aborted", async () => {
+    const uploadId = await startUpload();
+    const res = await testApp.request(`${path}?uploadId=${uploadId}`, {
+      method: "DELETE",
+      headers,
+    });
+    expect(res.status).toBe(200);
+    expect((await uploadPart(uploadId, 1, parts[0]!)).status).toBe(404);
+  });
+
+  it("conflicts before uploading anything", async () => {
+    await publish(testApp, "/alice/utils@abc1234", tarball, {
+      token: "alice-token",
+    });
+
+    const res = await createUpload();
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ sha256: sha256(tarball) });
+  });
+});
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createTarball,
+  createTestApp,
+  mockGithub,
+  publish,
+  type TestApp,
+} from "./harness";
+
+const tarball = createTarball({
+  "package.json": JSON.stringify({ name: "utils", version: "1.2.0" }),
+  "README.md": "# utils\n",
+});
+
+let testApp: TestApp;
+beforeEach(async () => {
+  testApp = createTestApp();
+  mockGithub({ users: { "alice-token": "alice", "bob-token": "bob" } });
+  await publish(testApp, "/alice/utils@abc1234", tarball, {
+    token: "alice-token",
+  });
+});
+
+describe("downloads", () => {
+  it("serves the published tarball", async () => {
+    const res = await testApp.request("/alice/utils@abc1234");
+    expect(res.status).toBe(200);
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(
+      new Uint8Array(tarball)
+    );
+  });
+
+  it("returns 404 for unknown versions", async () => {
+    const res = await testApp.request("/alice/utils@def5678");
+    expect(res.status).toBe(404);
+  });
+
+  it("resolves tags", async () => {
+    const tagged = await testApp.request("/alice/-/tags/utils@main", {
+      method: "PUT",
+      headers: {
+        Authorization: "Bearer alice-token",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ version: "abc1234" }),
+    });
+    expect(tagged.status).toBe(200);
+
+    const res = await testApp.request("/alice/utils@main");
+    expect(res.status).toBe(200);
+  });
+
+  it("serves single files of the tarball", async () => {
+    const res = await testApp.request("/alice/utils@abc1234/-/files/README.md");
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("# utils\n");
+  });
+});
+
+describe("private packages", () => {
+  beforeEach(async () => {
+    await publish(testApp, "/alice/secret@abc1234", tarball, {
+      token: "alice-token",
+      private: true,
+    });
+  });
+
+  it("can't be downloaded anonymously", async () => {
+    const res = await testApp.request("/alice/secret@abc1234");
+    expect(res.status).toBe(401);
+  });
+
+  it("can't be downloaded by other users", async () => {
+    const res = await testApp.request("/alice/secret@abc1234", {
+      headers: { Authorization: "Bearer bob-token" },
+    });
+    expect(res.status).toBe(401);
+  });
+
+  it("hides their tags from those who can't download them", async () => {
+    for (const [tag, name] of [
+      ["main", "utils"],
+      ["main", "secret"],
+    ]) {
+      await testApp.request(`/alice/-/tags/${name}@${tag}`, {
+        method: "PUT",
+        headers: {
+          Authorization: "Bearer alice-token",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ version: "abc1234" }),
+      });
+    }
+
+    const publicTags = await testApp.request("/alice/-/tags/utils");
+    expect(await publicTags.json()).toEqual({ tags: { main: "abc1234" } });
+
+    const anonymous = await testApp.request("/alice/-/tags/secret");
+    expect(await anonymous.json()).toEqual({ tags: {} });
+    expect(anonymous.headers.get("Cache-Control")).toContain("private");
+
+    const owner = await testApp.request("/alice/-/tags/secret", {
+      headers: { Authorization: "Bearer alice-token" },
+    });
+    expect(await owner.json()).toEqual({ tags: { main: "abc1234" } });
+  });
+
+  it("can be downloaded by the owner", async () => {
+    const res = await testApp.request("/alice/secret@abc1234", {
+      headers: { Authorization: "Bearer alice-token" },
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toContain("private");
+  });
+});
+
+describe("registry", () => {
+  it("lists previews as prerelease versions", async () => {
+    const res = await testApp.request("/alice/registry/utils");
+    expect(res.status).toBe(200);
+
+    const packument = (await res.json()) as {
+      "dist-tags": Record<string, string>;
+      versions: Record<string, { dist: { tarball: string } }>;
+    };
+    expect(packument["dist-tags"].latest).toBe("1.2.0-preview-abc1234");
+    expect(packument.versions["1.2.0-preview-abc1234"]?.dist.tarball).toMatch(
+      /\/alice\/utils@abc1234$/
+    );
+  });
+
+  it("reads every version from the package index", async () => {
+    await publish(testApp, "/alice/utils@def5678", tarball, {
+      token: "alice-token",
+    });
+    await testApp.storage.delete([
+      "preview-pkg-metadata/alice/utils@abc1234",
+      "preview-pkg-metadata/alice/utils@def5678",
+    ]);
+
+    const get = vi.spyOn(testApp.storage, "get");
+    const res = await testApp.request("/alice/registry/utils");
+    expect(get.mock.calls.map(([key]) => key)).toEqual([
+      "preview-pkg-index/alice/utils",
+    ]);
+    const packument = (await res.json()) as { versions: object };
+    expect(Object.keys(packument.versions)).toEqual([
+      "1.2.0-preview-abc1234",
+      "1.2.0-preview-def5678",
+    ]);
+  });
+
+  it("adds versions missing from the index", async () => {
+    await testApp.storage.delete("preview-pkg-index/alice/utils");
+
+    const res = await testApp.request("/alice/registry/utils");
+    expect(res.status).toBe(200);
+    const index = await testApp.storage.get("preview-pkg-index/alice/utils");
+    expect(Object.keys(await index!.json<object>())).toEqual(["abc1234"]);
+  });
+
+  it("removes unpublished versions from the index", async () => {
+    await testApp.request("/alice/utils@abc1234", {
+      method: "DELETE",
+      headers: { Authorization: "Bearer alice-token" },
+    });
+    expect(
+      await testApp.storage.head("preview-pkg-index/alice/utils")
+    ).toBeNull();
+  });
+});
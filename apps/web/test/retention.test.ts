@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { sweepExpiredPackages } from "../src/retention";
+import {
+  createTarball,
+  createTestApp,
+  mockGithub,
+  publish,
+  type TestApp,
+} from "./harness";
+
+const tarball = createTarball({
+  "package.json": JSON.stringify({ name: "utils", version: "1.0.0" }),
+});
+
+let testApp: TestApp;
+beforeEach(async () => {
+  testApp = createTestApp();
+  mockGithub({ users: { "alice-token": "alice" } });
+  for (const version of ["abc1234", "def5678"]) {
+    await publish(testApp, `/alice/utils@${version}`, tarball, {
+      token: "alice-token",
+    });
+  }
+});
+
+const expire = (key: string) => {
+  testApp.storage.objects.get(key)!.object.customMetadata.expiresAt = new Date(
+    Date.now() - 1000
+  ).toISOString();
+};
+
+const tag = (tag: string, version: string) =>
+  testApp.request(`/alice/-/tags/utils@${tag}`, {
+    method: "PUT",
+    headers: {
+      Authorization: "Bearer alice-token",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ version }),
+  });
+
+describe("sweepExpiredPackages", () => {
+  it("deletes expired packages and everything stored for them", async () => {
+    expire("preview-pkg/alice/utils@abc1234");
+
+    expect(await sweepExpiredPackages(testApp.storage)).toBe(1);
+    expect([...testApp.storage.objects.keys()].sort()).toEqual([
+      "preview-pkg-index/alice/utils",
+      "preview-pkg-metadata/alice/utils@def5678",
+      "preview-pkg/alice/utils@def5678",
+    ]);
+    const index = await testApp.storage.get("preview-pkg-index/alice/utils");
+    expect(Object.keys(await index!.json<object>())).toEqual(["def5678"]);
+  });
+
+  it("deletes tags pointing to swept versions", async () => {
+    await tag("main", "abc1234");
+    await tag("next", "def5678");
+    expire("preview-pkg/alice/utils@abc1234");
+
+    await sweepExpiredPackages(testApp.storage);
+    const res = await testApp.request("/alice/-/tags/utils");
+    expect(await res.json()).toEqual({ tags: { next: "def5678" } });
+    expect((await testApp.request("/alice/utils@main")).status).toBe(404);
+  });
+
+  it("keeps packages that haven't expired", async () => {
+    await tag("main", "abc1234");
+    expect(await sweepExpiredPackages(testApp.storage)).toBe(0);
+    expect((await testApp.request("/alice/utils@main")).status).toBe(200);
+  });
+});
@@ -0,0 +1,253 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileSystemStorage } from "../src/fs-storage";
+import { MemoryStorage } from "../src/memory-storage";
+import { S3Storage } from "../src/s3-storage";
+import { ChecksumMismatchError, type Storage } from "../src/storage";
+import { mockS3, sha256 } from "./harness";
+
+const S3_ENDPOINT = "https://s3.test";
+const createS3Storage = (respond?: Parameters<typeof mockS3>[2]) => ({
+  s3: mockS3(S3_ENDPOINT, "previews", respond),
+  storage: new S3Storage({
+    endpoint: S3_ENDPOINT,
+    bucket: "previews",
+    accessKeyId: "key",
+    secretAccessKey: "secret",
+  }),
+});
+
+type StorageFactory = () => Promise<{
+  storage: Storage;
+  cleanup?: () => Promise<void>;
+}>;
+
+// Every storage has to behave the same for the routes
+describe.each<[string, StorageFactory]>([
+  ["MemoryStorage", async () => ({ storage: new MemoryStorage() })],
+  [
+    "FileSystemStorage",
+    async () => {
+      const dir = await mkdtemp(join(tmpdir(), "preview-pkg-storage-"));
+      return {
+        storage: new FileSystemStorage(dir),
+        cleanup: () => rm(dir, { recursive: true, force: true }),
+      };
+    },
+  ],
+  ["S3Storage", async () => createS3Storage()],
+])("%s", (_, create) => {
+  let storage: Storage;
+  let cleanup: (() => Promise<void>) | undefined;
+  beforeEach(async () => {
+    ({ storage, cleanup } = await create());
+  });
+  afterEach(() => cleanup?.());
+
+  it("stores values with their metadata and checksum", async () => {
+    const value = new TextEncoder().encode("hello");
+    await storage.put("a/@scope__b@1", value.buffer, {
+      customMetadata: { version: "1" },
+      sha256: sha256(value),
+    });
+
+    const object = await storage.get("a/@scope__b@1");
+    expect(object).toMatchObject({
+      key: "a/@scope__b@1",
+      size: 5,
+      customMetadata: { version: "1" },
+      sha256: sha256(value),
+    });
+    expect(await object!.text()).toBe("hello");
+  });
+
+  it("returns null for missing objects", async () => {
+    expect(await storage.head("missing")).toBeNull();
+    expect(await storage.get("missing")).toBeNull();
+  });
+
+  it("rejects values not matching their checksum", async () => {
+    await expect(
+      storage.put("key", "hello", { sha256: "0".repeat(64) })
+    ).rejects.toBeInstanceOf(ChecksumMismatchError);
+    expect(await storage.head("key")).toBeNull();
+  });
+
+  it("lists by prefix, with metadata only when asked", async () => {
+    await storage.put("b/2", "", { customMetadata: { id: "2" } });
+    await storage.put("b/1", "", { customMetadata: { id: "1" } });
+    await storage.put("c/1", "");
+
+    const { objects } = await storage.list({ prefix: "b/" });
+    expect(objects.map((object) => object.key)).toEqual(["b/1", "b/2"]);
+    expect(objects[0]?.customMetadata).toBeUndefined();
+
+    const withMetadata = await storage.list({
+      prefix: "b/",
+      withMetadata: true,
+    });
+    expect(withMetadata.objects[0]?.customMetadata).toEqual({ id: "1" });
+  });
+
+  it("pages through long lists", async () => {
+    for (let i = 0; i < 1001; i++)
+      await storage.put(`page/${String(i).padStart(4, "0")}`, "");
+
+    const first = await storage.list({ prefix: "page/" });
+    expect(first.objects).toHaveLength(1000);
+    expect(first.truncated).toBe(true);
+
+    const second = await storage.list({
+      prefix: "page/",
+      cursor: first.cursor,
+    });
+    expect(second.objects.map((object) => object.key)).toEqual(["page/1000"]);
+    expect(second.truncated).toBe(false);
+  });
+
+  it("deletes several keys at once", async () => {
+    await storage.put("x", "");
+    await storage.put("y", "");
+    await storage.put("z", "");
+    await storage.delete(["x", "y", "missing"]);
+    expect(
+      (await storage.list({})).objects.map((object) => object.key)
+    ).toEqual(["z"]);
+  });
+
+  it("joins multipart uploads in the order of the parts", async () => {
+    const upload = await storage.createMultipartUpload("big", {
+      customMetadata: { sha256: "x" },
+    });
+    const encode = (value: string) => new TextEncoder().encode(value).buffer;
+    const second = await upload.uploadPart(2, encode("world"));
+    // Parts can be uploaded from other requests
+    const first = await storage
+      .resumeMultipartUpload("big", upload.uploadId)
+      .uploadPart(1, encode("hello "));
+
+    const object = await storage
+      .resumeMultipartUpload("big", upload.uploadId)
+      .complete([first, second]);
+    expect(object).toMatchObject({ size: 11 });
+    expect(await (await storage.get("big"))!.text()).toBe("hello world");
+    expect((await storage.head("big"))?.customMetadata).toEqual({
+      sha256: "x",
+    });
+  });
+
+  it("rejects unknown uploads", async () => {
+    const upload = storage.resumeMultipartUpload("big", "unknown");
+    await expect(upload.uploadPart(1, new ArrayBuffer(1))).rejects.toThrow();
+    await expect(upload.abort()).rejects.toThrow();
+  });
+});
+
+describe("S3Storage", () => {
+  it("signs every request", async () => {
+    const { s3, storage } = createS3Storage();
+    await storage.put("a", "hello");
+    expect(s3.requests[0]?.headers.get("authorization")).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=key\//
+    );
+  });
+
+  it("escapes keys in URLs and XML", async () => {
+    const { storage } = createS3Storage();
+    const key = "preview-pkg/alice/@acme__ui@1.0.0 & <b>";
+    await storage.put(key, "hello", { customMetadata: { name: "ü & é" } });
+
+    expect(
+      (await storage.list({ prefix: "preview-pkg/" })).objects.map(
+        (object) => object.key
+      )
+    ).toEqual([key]);
+    expect((await storage.head(key))?.customMetadata).toEqual({
+      name: "ü & é",
+    });
+    await storage.delete([key]);
+    expect(await storage.head(key)).toBeNull();
+  });
+
+  it("doesn't report composite checksums of multipart uploads", async () => {
+    const { storage } = createS3Storage();
+    const upload = await storage.createMultipartUpload("big");
+    const part = await upload.uploadPart(
+      1,
+      new TextEncoder().encode("hello").buffer
+    );
+    const object = await upload.complete([part]);
+    expect(object).toMatchObject({ size: 5, sha256: null });
+  });
+
+  it("maps S3 checksum errors to ChecksumMismatchError", async () => {
+    // Sent with a valid checksum, S3 only rejects it if it's damaged on the way
+    const { storage } = createS3Storage((request) =>
+      request.method === "PUT"
+        ? new Response(
+            "<Error><Code>BadDigest</Code><Message>The SHA256 you specified did not match the calculated checksum.</Message></Error>",
+            { status: 400 }
+          )
+        : undefined
+    );
+    await expect(storage.put("key", "hello")).rejects.toBeInstanceOf(
+      ChecksumMismatchError
+    );
+  });
+
+  it("deletes at most 1000 keys per request", async () => {
+    const { s3, storage } = createS3Storage();
+    const keys = Array.from({ length: 1001 }, (_, i) => `key/${i}`);
+    for (const key of keys) await storage.put(key, "");
+
+    s3.requests.length = 0;
+    await storage.delete(keys);
+    expect(s3.requests.map((request) => request.method)).toEqual([
+      "POST",
+      "POST",
+    ]);
+    expect(s3.objects.size).toBe(0);
+  });
+
+  it("fails if some objects couldn't be deleted", async () => {
+    const { storage } = createS3Storage((request) =>
+      new URL(request.url).searchParams.has("delete")
+        ? new Response(
+            `<DeleteResult><Error><Key>a</Key><Code>AccessDenied</Code><Message>Access Denied</Message></Error></DeleteResult>`
+          )
+        : undefined
+    );
+    await expect(storage.delete(["a", "b"])).rejects.toThrow(
+      "S3 failed to delete 1 object(s): Access Denied"
+    );
+  });
+
+  it("fails uploads that couldn't be completed after responding", async () => {
+    // S3 sends the status before joining the parts, errors end up in the body
+    const { storage } = createS3Storage((request) =>
+      request.method === "POST" &&
+      new URL(request.url).searchParams.has("uploadId")
+        ? new Response(
+            `<?xml version="1.0" encoding="UTF-8"?>\n<Error><Code>InternalError</Code><Message>We encountered an internal error. Please try again.</Message></Error>`
+          )
+        : undefined
+    );
+    const upload = await storage.createMultipartUpload("big");
+    const part = await upload.uploadPart(1, new ArrayBuffer(1));
+    await expect(upload.complete([part])).rejects.toThrow(
+      "S3 failed to complete the upload: We encountered an internal error. Please try again."
+    );
+    expect(await storage.head("big")).toBeNull();
+  });
+
+  it("includes the S3 error in failed requests", async () => {
+    const { storage } = createS3Storage();
+    await expect(
+      storage.resumeMultipartUpload("big", "unknown").abort()
+    ).rejects.toThrow(
+      "S3 DELETE /previews/big failed with 404: The specified upload does not exist."
+    );
+  });
+});
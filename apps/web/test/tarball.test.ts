@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  listTarballFiles,
+  readTarballFile,
+  replaceTarballFile,
+} from "../src/tarball";
+import { createTarball } from "./harness";
+
+const stream = (bytes: Uint8Array) =>
+  new Blob([Uint8Array.from(bytes)]).stream();
+
+const readStream = async (body: ReadableStream<Uint8Array>) =>
+  new Uint8Array(await new Response(body).arrayBuffer());
+
+describe("replaceTarballFile", () => {
+  const tarball = createTarball({
+    "package.json": JSON.stringify({ name: "utils", version: "1.0.0" }),
+    "index.js": "export const add = (a, b) => a + b;",
+    "README.md": "# utils",
+  });
+
+  it("replaces the contents of the file", async () => {
+    const manifest = JSON.stringify(
+      { name: "utils", version: "1.0.0", dependencies: { core: "^1.0.0" } },
+      null,
+      2
+    );
+    const replaced = await readStream(
+      replaceTarballFile(
+        stream(tarball),
+        "package.json",
+        new TextEncoder().encode(manifest)
+      )
+    );
+
+    const contents = await readTarballFile(stream(replaced), "package.json");
+    expect(new TextDecoder().decode(contents!)).toBe(manifest);
+  });
+
+  it("copies every other file as is", async () => {
+    const replaced = await readStream(
+      replaceTarballFile(
+        stream(tarball),
+        "package.json",
+        new TextEncoder().encode("{}")
+      )
+    );
+
+    expect(
+      (await listTarballFiles(stream(replaced))).map(({ path, size }) => ({
+        path,
+        size,
+      }))
+    ).toEqual([
+      { path: "index.js", size: 35 },
+      { path: "package.json", size: 2 },
+      { path: "README.md", size: 7 },
+    ]);
+    const readme = await readTarballFile(stream(replaced), "README.md");
+    expect(new TextDecoder().decode(readme!)).toBe("# utils");
+  });
+
+  it("fails on truncated tarballs", async () => {
+    await expect(
+      readStream(
+        replaceTarballFile(
+          stream(tarball.subarray(0, 40)),
+          "package.json",
+          new Uint8Array()
+        )
+      )
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Removes the mocks of `mockGithub` and `mockS3` after every test
+    unstubGlobals: true,
+  },
+});